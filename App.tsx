@@ -1,10 +1,120 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { parsePdf, renderPageToCanvas } from './services/pdfService';
-import { performOCR } from './services/ocrService';
-import { processRawLayout, generateSpeech, decodeAudioData } from './services/geminiService';
-import { DocumentData, PageContent, TTSState } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { loadPdf, PdfLoader, PdfLoadProgress } from './services/pdfService';
+import { cleanupText, mergeRewrittenBlocks, paragraphBlocks } from './utils/layoutEngine';
+import { parseImage } from './services/ocrService';
+import { parseEpub } from './services/epubService';
+import { parseDocx } from './services/docxService';
+import { parseHtml } from './services/htmlService';
+import { parseMarkdown } from './services/markdownService';
+import { processRawLayout, decodeAudioData, isTransientError, MalformedLayoutError } from './services/geminiService';
+import { SPEECH_ENGINES, getSpeechEngine, shouldFallBack, webSpeechEngine } from './services/speechEngines';
+import { fingerprintFile, getCachedLayout, putCachedLayout } from './services/cacheService';
+import { createSynthesisPipeline, iterateChunks, PagePreparationError, ReadingPosition, SynthesisPipeline, SynthesizedChunk } from './services/synthesisPipeline';
+import { isAbortError } from './utils/retry';
+import { DocumentData, DocumentType, OutlineEntry, PageContent, SpeechEngine, SpeechEngineId, TTSState, VoiceCasting, VoiceOption } from './types';
 import Visualizer from './components/Visualizer';
+import WaveformScrubber, { ScrubberClip } from './components/WaveformScrubber';
+import SettingsPanel from './components/SettingsPanel';
+import ExportPanel from './components/ExportPanel';
+import VoiceCastingPanel from './components/VoiceCastingPanel';
+import AskPanel from './components/AskPanel';
+import PageView from './components/PageView';
+import ErrorTray, { TrayError } from './components/ErrorTray';
+import ReadingView from './components/ReadingView';
+import TableView from './components/TableView';
+import FurnitureReview from './components/FurnitureReview';
+import CleanupDiff from './components/CleanupDiff';
+import LibraryView from './components/LibraryView';
+import OutlinePanel from './components/OutlinePanel';
+import LexiconPanel from './components/LexiconPanel';
+import { loadLexicon, saveLexicon } from './services/lexiconService';
+import { LexiconEntry, normalizeForSpeech, SpeechNormalization } from './utils/textNormalizer';
+import { loadPreferences, Preferences, savePreferences } from './services/preferences';
+import { loadSourceFile, openDocument, ReadingBookmark, saveDocument, saveReadingPosition, saveSourceFile } from './services/libraryService';
+import { estimateWordTimings, tokenizeWords, wordIndexAt } from './utils/wordTimings';
+import { prosodyFor } from './utils/prosody';
+import { timeStretch } from './utils/timeStretch';
+import { sentenceWordStarts } from './utils/textChunker';
+import { castText } from './utils/voiceCasting';
+import { buildHeadingOutline, sectionIndexAt } from './utils/outline';
+
+// Number of chunks synthesized ahead of the one currently playing.
+const LOOK_AHEAD_CHUNKS = 3;
+
+interface WordPosition {
+  page: number;
+  block: number;
+  word: number;
+}
+
+interface ScheduledWord extends WordPosition {
+  /** AudioContext time at which the word starts. */
+  time: number;
+}
+
+/**
+ * Replace a page's blocks with the layout model's typed blocks, reusing the cached result when
+ * this document page was processed before. Furniture blocks are kept around them for review,
+ * and detected tables are kept as they are.
+ * A malformed response, or the service staying unreachable after its retries, leaves the layout
+ * engine's blocks in place (plain paragraphs for text that has none), so files still open offline.
+ */
+async function cleanPage(docId: string, page: PageContent, signal?: AbortSignal): Promise<void> {
+  let cleaned = await getCachedLayout(docId, page.pageNumber);
+  if (!cleaned) {
+    const text = cleanupText(page);
+    try {
+      // A page that is all table leaves the model nothing to rewrite.
+      cleaned = text.trim() ? await processRawLayout(text, signal) : [];
+    } catch (err) {
+      if (!(err instanceof MalformedLayoutError) && !isTransientError(err)) throw err;
+      console.warn(`Page ${page.pageNumber}: ${err.message}, keeping layout blocks`);
+      if (page.blocks.length === 0) page.blocks = paragraphBlocks(page.rawText);
+      page.cleanup = 'layout';
+      return;
+    }
+    putCachedLayout(docId, page.pageNumber, cleaned).catch(e => console.warn('Layout cache write failed', e));
+  }
+
+  page.blocks = mergeRewrittenBlocks(page, cleaned);
+  page.cleanup = 'ai';
+}
+
+const EXTENSION_TYPES: Record<string, DocumentType> = {
+  pdf: 'pdf', epub: 'epub', docx: 'docx', html: 'html', htm: 'html', xhtml: 'html',
+  md: 'markdown', markdown: 'markdown', txt: 'text',
+  png: 'image', jpg: 'image', jpeg: 'image', webp: 'image', gif: 'image', bmp: 'image'
+};
+
+/**
+ * Format of an uploaded file by extension, falling back to its MIME type
+ * (browsers often report an empty type for .md and .epub).
+ */
+function documentTypeOf(file: File): DocumentType | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (EXTENSION_TYPES[extension]) return EXTENSION_TYPES[extension];
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type === 'application/epub+zip') return 'epub';
+  if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return 'docx';
+  if (file.type === 'text/html') return 'html';
+  if (file.type === 'text/markdown') return 'markdown';
+  if (file.type === 'text/plain') return 'text';
+  if (file.type.startsWith('image/')) return 'image';
+  return null;
+}
+
+/**
+ * Speed is applied by stretching, which keeps the voice's pitch; a source's playbackRate then only
+ * shifts pitch. `tempo` is the speed divided by the playbackRate the buffer will be played at.
+ */
+function stretchBuffer(ctx: AudioContext, buffer: AudioBuffer, tempo: number): AudioBuffer {
+  const stretched = timeStretch(buffer.getChannelData(0), tempo, buffer.sampleRate);
+  if (stretched.length === buffer.length) return buffer;
+  const result = ctx.createBuffer(1, stretched.length, buffer.sampleRate);
+  result.getChannelData(0).set(stretched);
+  return result;
+}
 
 const App: React.FC = () => {
   const [doc, setDoc] = useState<DocumentData | null>(null);
@@ -17,19 +127,285 @@ const App: React.FC = () => {
     speed: 1.0,
     pitch: 1.0,
     voice: 'Kore',
-    volume: 1.0
+    volume: 1.0,
+    engine: 'gemini',
+    isPaused: false
   });
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [engineNotice, setEngineNotice] = useState("");
+  const [errors, setErrors] = useState<TrayError[]>([]);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showVoices, setShowVoices] = useState(false);
+  const [showAsk, setShowAsk] = useState(false);
+  const [showPageView, setShowPageView] = useState(false);
+  // Original file of a PDF or image document, for the page view.
+  const [sourceFile, setSourceFile] = useState<Blob | null>(null);
+  // Progress of the open PDF while its pages stream in; `stopped` once loading ended short.
+  const [pdfLoad, setPdfLoad] = useState<{ docId: string; progress: PdfLoadProgress; stopped?: boolean } | null>(null);
+  const [showFurniture, setShowFurniture] = useState(false);
+  const [showCleanup, setShowCleanup] = useState(false);
+  const [showOutline, setShowOutline] = useState(false);
+  const [showLexicon, setShowLexicon] = useState(false);
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>(loadLexicon);
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
 
   const [currentText, setCurrentText] = useState("");
+  const [isBuffering, setIsBuffering] = useState(false);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [currentClip, setCurrentClip] = useState<ScrubberClip | null>(null);
+  const [activeWord, setActiveWord] = useState<WordPosition | null>(null);
+  const wordScheduleRef = useRef<ScheduledWord[]>([]);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const isPlayingRef = useRef(false);
+  const isPausedRef = useRef(false);
+  // Settled while paused; the read loop waits on it before scheduling more audio.
+  const pauseGateRef = useRef<{ promise: Promise<void>; release: () => void } | null>(null);
+  // Speed and pitch the running pipeline was started with; its queued audio is already stretched to them.
+  const playbackParamsRef = useRef({ speed: 1.0, pitch: 1.0 });
+  const pipelineRef = useRef<SynthesisPipeline<AudioBuffer | null> | null>(null);
+  // The running playback session; aborting it cancels everything that session started.
+  const sessionRef = useRef<AbortController | null>(null);
+  // Settle functions of failures playback is waiting on.
+  const pendingFailuresRef = useRef(new Set<(decision: 'retry' | 'skip') => void>());
+  const nextErrorIdRef = useRef(0);
+  // Where the scrubber's clip sits in the document, for seeking from it.
+  const clipTargetRef = useRef<{ page: number; block: number; wordOffset: number } | null>(null);
+  // The latest preview snippet; a newer one cuts it off.
+  const previewRef = useRef<{ id: number; source: AudioBufferSourceNode | null }>({ id: 0, source: null });
+  // The PDF loading in the background for the open document; kept after it completes so
+  // playback started mid-load can still reach the later pages.
+  const pdfLoaderRef = useRef<{ docId: string; loader: PdfLoader; file: File; complete: boolean } | null>(null);
 
   useEffect(() => {
     isPlayingRef.current = ttsState.isPlaying;
   }, [ttsState.isPlaying]);
 
+  useEffect(() => {
+    let cancelled = false;
+    getSpeechEngine(ttsState.engine).getVoices().then(list => {
+      if (cancelled) return;
+      setVoices(list);
+      setTtsState(p => list.some(v => v.id === p.voice) ? p : { ...p, voice: list[0]?.id || '' });
+    });
+    return () => { cancelled = true; };
+  }, [ttsState.engine]);
+
+  // Follow scheduled word start times against the audio clock while PCM audio plays.
+  useEffect(() => {
+    if (!ttsState.isPlaying) return;
+    let frame: number;
+
+    const tick = () => {
+      const ctx = audioContextRef.current;
+      const schedule = wordScheduleRef.current;
+      if (ctx && schedule.length > 0) {
+        let idx = -1;
+        while (idx + 1 < schedule.length && schedule[idx + 1].time <= ctx.currentTime) idx++;
+        if (idx >= 0) {
+          const { page, block, word } = schedule[idx];
+          schedule.splice(0, idx);
+          setActiveWord(prev => prev && prev.page === page && prev.block === block && prev.word === word ? prev : { page, block, word });
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [ttsState.isPlaying]);
+
+  const outline = useMemo<OutlineEntry[]>(
+    () => !doc ? [] : doc.outline?.length ? doc.outline : buildHeadingOutline(doc.pages),
+    [doc]
+  );
+  const normalization = useMemo<SpeechNormalization>(
+    () => ({ lexicon, rules: preferences.normalization, mathVerbosity: preferences.mathVerbosity }),
+    [lexicon, preferences.normalization, preferences.mathVerbosity]
+  );
+  const currentSection = sectionIndexAt(outline, ttsState.currentPage, ttsState.currentBlockIndex);
+
+  // A document whose pages are still streaming in is saved once they are all in.
+  const isStreaming = (id: string) => pdfLoaderRef.current?.docId === id && !pdfLoaderRef.current.complete;
+
+  // Pages streamed in after a loop started are missing from the document it captured; look them up here.
+  const pageAt = (index: number): PageContent | undefined =>
+    doc?.pages[index] ?? (pdfLoaderRef.current?.docId === doc?.id ? pdfLoaderRef.current!.loader.pages[index] : undefined);
+
+  // Keep the library copy in step with the open document (furniture restored, pages analyzed).
+  useEffect(() => {
+    if (doc && !isStreaming(doc.id)) saveDocument(doc).catch(e => console.warn('Library save failed', e));
+  }, [doc]);
+
+  useEffect(() => {
+    if (!doc) return;
+    saveReadingPosition(doc, { page: ttsState.currentPage, block: ttsState.currentBlockIndex })
+      .catch(e => console.warn('Could not save reading position', e));
+  }, [doc, ttsState.currentPage, ttsState.currentBlockIndex]);
+
+  useEffect(() => {
+    // Leaving a document stops its background loading.
+    const loading = pdfLoaderRef.current;
+    if (loading && loading.docId !== doc?.id) {
+      loading.loader.cancel();
+      pdfLoaderRef.current = null;
+      setPdfLoad(null);
+    }
+
+    setSourceFile(null);
+    if (!doc || (doc.type !== 'pdf' && doc.type !== 'image')) return;
+    // Not in the library until loading completes.
+    if (loading?.docId === doc.id) {
+      setSourceFile(loading.file);
+      return;
+    }
+    let cancelled = false;
+    loadSourceFile(doc.id)
+      .then(file => { if (!cancelled) setSourceFile(file); })
+      .catch(e => console.warn('Could not load the original file', e));
+    return () => { cancelled = true; };
+  }, [doc?.id]);
+
+  const dismissError = (id: number) => setErrors(prev => prev.filter(e => e.id !== id));
+
+  const reportError = (title: string, err: unknown, onRetry?: () => void) => {
+    const id = nextErrorIdRef.current++;
+    const message = err instanceof Error ? err.message : String(err);
+    setErrors(prev => [...prev, { id, title, message, ...(onRetry ? { onRetry: () => { dismissError(id); onRetry(); } } : {}) }]);
+  };
+
+  /**
+   * Show a playback failure with Retry and Skip, resolving with the user's choice
+   * (or 'skip' once playback stops).
+   */
+  const awaitFailureDecision = (title: string, err: unknown) => new Promise<'retry' | 'skip'>(resolve => {
+    const id = nextErrorIdRef.current++;
+    const settle = (decision: 'retry' | 'skip') => {
+      pendingFailuresRef.current.delete(settle);
+      dismissError(id);
+      resolve(decision);
+    };
+    pendingFailuresRef.current.add(settle);
+    const message = err instanceof Error ? err.message : String(err);
+    setErrors(prev => [...prev, { id, title, message, onRetry: () => settle('retry'), onSkip: () => settle('skip') }]);
+  });
+
+  const showDocument = (next: DocumentData, position: ReadingBookmark) => {
+    setActiveWord(null);
+    setTtsState(p => ({ ...p, currentPage: position.page, currentBlockIndex: position.block }));
+    setDoc(next);
+  };
+
+  const openFromLibrary = async (id: string) => {
+    try {
+      const stored = await openDocument(id);
+      if (stored) showDocument(stored.doc, stored.entry.position);
+    } catch (err: any) {
+      reportError("Could not open this document", err, () => openFromLibrary(id));
+    }
+  };
+
+  const updatePreferences = (patch: Partial<Preferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...patch };
+      savePreferences(next);
+      return next;
+    });
+  };
+
+  const updateLexicon = (entries: LexiconEntry[]) => {
+    setLexicon(entries);
+    saveLexicon(entries);
+  };
+
+  const ensureAudioContext = async (): Promise<AudioContext> => {
+    if (!audioContextRef.current) {
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      // Every source plays through the analyser (so the visualizer shows what is actually
+      // audible) and then the volume gain.
+      const node = ctx.createAnalyser();
+      node.fftSize = 256;
+      node.smoothingTimeConstant = 0.7;
+      const gain = ctx.createGain();
+      gain.gain.value = ttsState.volume;
+      node.connect(gain);
+      gain.connect(ctx.destination);
+      audioContextRef.current = ctx;
+      analyserRef.current = node;
+      gainRef.current = gain;
+      setAnalyser(node);
+    } else if (audioContextRef.current.state === 'suspended') {
+      await audioContextRef.current.resume();
+    }
+    return audioContextRef.current;
+  };
+
+  /**
+   * Speak a short snippet (lexicon and voice previews, table cells) with the selected engine, outside
+   * the reading pipeline. A new snippet cuts off the one before it.
+   */
+  const previewSpeech = async (text: string, voice: string = ttsState.voice) => {
+    const id = ++previewRef.current.id;
+    try { previewRef.current.source?.stop(); } catch {}
+    previewRef.current.source = null;
+    const engine = getSpeechEngine(ttsState.engine);
+    const spoken = normalizeForSpeech(text, normalization);
+    if (engine.kind === 'native') {
+      // Browser speech is one queue; only clear it when it is not reading the document.
+      if (!isPlayingRef.current) engine.cancel();
+      await engine.speak(spoken, { voice, rate: ttsState.speed, pitch: ttsState.pitch, volume: ttsState.volume });
+      return;
+    }
+    const ctx = await ensureAudioContext();
+    const decoded = await decodeAudioData(await engine.synthesize(spoken, voice), ctx, engine.capabilities.sampleRate!);
+    if (id !== previewRef.current.id) return;
+    const source = ctx.createBufferSource();
+    previewRef.current.source = source;
+    source.buffer = stretchBuffer(ctx, decoded, ttsState.speed / ttsState.pitch);
+    source.playbackRate.value = ttsState.pitch;
+    source.connect(analyserRef.current!);
+    await new Promise<void>(resolve => {
+      source.onended = () => resolve();
+      source.start();
+    });
+  };
+
+  // Stepping through a table takes over from reading.
+  const announceCell = (text: string) => {
+    if (isPlayingRef.current) stopPlayback();
+    previewSpeech(text).catch(e => console.warn('Could not announce the cell', e));
+  };
+
+  // Saved with the document by the library effect.
+  const updateCasting = (casting: VoiceCasting) => {
+    setDoc(prev => prev && {
+      ...prev,
+      voiceCasting: { ...prev.voiceCasting, [ttsState.engine]: casting }
+    });
+  };
+
+  const restoreFurniture = (pageIndex: number, blockIndex: number) => {
+    setDoc(prev => {
+      if (!prev) return prev;
+      const pages = prev.pages.map((page, pIdx) => pIdx !== pageIndex ? page : {
+        ...page,
+        blocks: page.blocks.map((block, bIdx) => bIdx !== blockIndex ? block : { ...block, furniture: undefined })
+      });
+      return { ...prev, pages };
+    });
+  };
+
+  const selectEngine = (engine: SpeechEngineId) => {
+    if (engine === ttsState.engine) return;
+    if (isPlayingRef.current) stopPlayback();
+    setEngineNotice("");
+    setTtsState(p => ({ ...p, engine }));
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -39,50 +415,64 @@ const App: React.FC = () => {
     
     try {
       let pages: PageContent[] = [];
+      let embeddedOutline: OutlineEntry[] = [];
+      const docId = await fingerprintFile(file);
+      const type = documentTypeOf(file);
+      // Laid-out documents keep their file for the page view (documents added before it lack one).
+      const keepSource = () => type === 'pdf' || type === 'image'
+        ? saveSourceFile(docId, file).catch(e => console.warn('Could not store the original file', e))
+        : Promise.resolve();
+
+      // Files already in the library open at their saved position without being processed again.
+      const stored = await openDocument(docId);
+      if (stored) {
+        await keepSource();
+        showDocument(stored.doc, stored.entry.position);
+        return;
+      }
 
-      if (file.type === 'application/pdf') {
+      if (type === 'pdf') {
         setProcessingStatus("Decoding PDF structure...");
-        pages = await parsePdf(file);
-        
-        const totalText = pages.reduce((acc, p) => acc + p.rawText.length, 0);
-        if (totalText < 100 && pages.length > 0) {
-          setProcessingStatus("Image-based PDF detected. Initializing OCR...");
-          const image = await renderPageToCanvas(file, 1, 3.0);
-          const ocrText = await performOCR(image);
-          pages[0].rawText = ocrText;
-        }
-      } else if (file.type.startsWith('image/')) {
+        await openStreamingPdf(file, docId, keepSource);
+        return;
+      } else if (type === 'image') {
         setProcessingStatus("Performing OCR...");
-        const reader = new FileReader();
-        const dataUrl = await new Promise<string>((res) => {
-          reader.onload = () => res(reader.result as string);
-          reader.readAsDataURL(file);
-        });
-        const ocrText = await performOCR(dataUrl);
-        pages = [{ pageNumber: 1, blocks: [], rawText: ocrText }];
-      } else if (file.type === 'text/plain') {
+        pages = await parseImage(file);
+      } else if (type === 'epub' || type === 'docx' || type === 'html' || type === 'markdown') {
+        // Structured formats are parsed locally into typed blocks; nothing is sent for layout cleanup.
+        setProcessingStatus("Reading document structure...");
+        const parse = { epub: parseEpub, docx: parseDocx, html: parseHtml, markdown: parseMarkdown }[type];
+        ({ pages, outline: embeddedOutline } = await parse(file));
+      } else if (type === 'text') {
         setProcessingStatus("Processing text...");
         const text = await file.text();
         pages = [{ pageNumber: 1, blocks: [], rawText: text }];
       } else {
-        throw new Error("Format not supported. Please use PDF, JPG, PNG, or TXT.");
+        throw new Error("Format not supported. Please use PDF, EPUB, DOCX, HTML, Markdown, TXT or an image.");
       }
 
       if (pages.length > 0) {
-        setProcessingStatus("Optimizing layout for audio...");
-        const cleaned = await processRawLayout(pages[0].rawText);
-        pages[0].blocks = [{ type: 'paragraph', content: cleaned, order: 0, confidence: 1.0 }];
+        // Pages parsed into blocks keep them; otherwise the first page is cleaned up front.
+        if (pages[0].blocks.length === 0) {
+          setProcessingStatus("Optimizing layout for audio...");
+          await cleanPage(docId, pages[0]);
+        }
 
-        setDoc({
-          id: crypto.randomUUID(),
+        const parsed: DocumentData = {
+          id: docId,
           name: file.name,
-          type: file.type.includes('pdf') ? 'pdf' : (file.type.includes('image') ? 'image' : 'text'),
+          type,
           pages: pages,
-          totalBlocks: pages.length
-        });
+          totalBlocks: pages.length,
+          ...(embeddedOutline.length > 0 ? { outline: embeddedOutline } : {})
+        };
+        await saveDocument(parsed, { mimeType: file.type, fileSize: file.size })
+          .catch(e => console.warn('Library save failed', e));
+        await keepSource();
+        showDocument(parsed, { page: 0, block: 0 });
       }
     } catch (err: any) {
-      alert(err.message || "An error occurred during processing.");
+      reportError(`Could not open ${file.name}`, err);
       console.error(err);
     } finally {
       setIsProcessing(false);
@@ -90,81 +480,474 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * Open a PDF as soon as its first page is analyzed and stream the rest in while it is
+   * read. The library copy is saved only once every page is in.
+   */
+  const openStreamingPdf = async (file: File, docId: string, keepSource: () => Promise<void>) => {
+    const loader = loadPdf(file, {
+      onPages: (_, progress) => {
+        setPdfLoad(prev => prev?.docId === docId ? { ...prev, progress } : prev);
+        setDoc(prev => prev?.id === docId && prev.pages.length < loader.pages.length
+          ? { ...prev, pages: [...prev.pages, ...loader.pages.slice(prev.pages.length)] }
+          : prev);
+      },
+      onOcrProgress: ({ done, total }) => setProcessingStatus(`Scanned pages detected. Running OCR (${done}/${total})...`)
+    });
+    const loading = { docId, loader, file, complete: false };
+    pdfLoaderRef.current = loading;
+    setPdfLoad({ docId, progress: { pages: 0, total: 0 } });
+
+    const abandon = () => {
+      loader.cancel();
+      pdfLoaderRef.current = null;
+      setPdfLoad(null);
+    };
+    try {
+      const first = await loader.pageAt(0);
+      if (!first) {
+        // Loading failed (rethrown here) or the file has no pages.
+        await loader.done;
+        abandon();
+        return;
+      }
+      if (first.blocks.length === 0) {
+        setProcessingStatus("Optimizing layout for audio...");
+        await cleanPage(docId, first);
+      }
+    } catch (err) {
+      abandon();
+      throw err;
+    }
+    const parsed: DocumentData = { id: docId, name: file.name, type: 'pdf', pages: loader.pages.slice(), totalBlocks: 1 };
+    showDocument(parsed, { page: 0, block: 0 });
+
+    loader.done.then(async ({ pages, outline }) => {
+      const meta = { mimeType: file.type, fileSize: file.size };
+      const extra = { totalBlocks: pages.length, ...(outline.length > 0 ? { outline } : {}) };
+      await saveDocument({ ...parsed, pages, ...extra }, meta).catch(e => console.warn('Library save failed', e));
+      await keepSource();
+      loading.complete = true;
+      setPdfLoad(prev => prev?.docId === docId ? null : prev);
+      // Saved again by the library effect, with any changes made while loading.
+      setDoc(prev => prev?.id === docId ? { ...prev, pages: [...prev.pages, ...pages.slice(prev.pages.length)], ...extra } : prev);
+    }).catch(err => {
+      setPdfLoad(prev => prev?.docId === docId ? { ...prev, stopped: true } : prev);
+      if (!isAbortError(err)) reportError(`Could not load the rest of ${file.name}`, err);
+    });
+  };
+
   const stopPlayback = () => {
-    setTtsState(prev => ({ ...prev, isPlaying: false }));
+    sessionRef.current?.abort();
+    sessionRef.current = null;
+    // Playback waiting on a failed block is over; drop its Retry/Skip entries.
+    pendingFailuresRef.current.forEach(settle => settle('skip'));
+    isPlayingRef.current = false;
+    isPausedRef.current = false;
+    pauseGateRef.current?.release();
+    pauseGateRef.current = null;
+    setTtsState(prev => ({ ...prev, isPlaying: false, isPaused: false }));
+    pipelineRef.current?.cancel();
+    pipelineRef.current = null;
     activeSourcesRef.current.forEach(s => { try { s.stop(); } catch {} });
     activeSourcesRef.current.clear();
+    webSpeechEngine.cancel();
     nextStartTimeRef.current = 0;
+    wordScheduleRef.current = [];
+    setIsBuffering(false);
+    setCurrentClip(null);
+  };
+
+  const startReading = async (from: ReadingPosition) => {
+    // Exactly one playback session at a time: starting ends the previous one.
+    if (sessionRef.current) stopPlayback();
+    const session = new AbortController();
+    sessionRef.current = session;
+    await ensureAudioContext();
+    if (session.signal.aborted) return;
+    playbackParamsRef.current = { speed: ttsState.speed, pitch: ttsState.pitch };
+
+    // readLoop checks the ref before the next render syncs it from state.
+    isPlayingRef.current = true;
+    setTtsState(prev => ({ ...prev, isPlaying: true, currentPage: from.page, currentBlockIndex: from.block }));
+    readLoop(from, session.signal);
+  };
+
+  const pausePlayback = () => {
+    if (!isPlayingRef.current || isPausedRef.current) return;
+    isPausedRef.current = true;
+    let release = () => {};
+    const promise = new Promise<void>(resolve => { release = resolve; });
+    pauseGateRef.current = { promise, release };
+    audioContextRef.current?.suspend();
+    webSpeechEngine.pause();
+    setIsBuffering(false);
+    setTtsState(prev => ({ ...prev, isPaused: true }));
+  };
+
+  const resumePlayback = async () => {
+    if (!isPausedRef.current) return;
+    // Queued audio was stretched for the old speed and pitch, so a change means starting over from here.
+    const { speed, pitch } = playbackParamsRef.current;
+    if (speed !== ttsState.speed || pitch !== ttsState.pitch) {
+      restartFromCurrentWord();
+      return;
+    }
+    isPausedRef.current = false;
+    await audioContextRef.current?.resume();
+    webSpeechEngine.resume();
+    pauseGateRef.current?.release();
+    pauseGateRef.current = null;
+    setTtsState(prev => ({ ...prev, isPaused: false }));
+  };
+
+  const waitWhilePaused = () => pauseGateRef.current?.promise ?? Promise.resolve();
+
+  /** Resolves once the AudioContext clock reaches `time`; the clock stands still while paused. */
+  const waitUntilAudioTime = async (time: number, isActive: () => boolean) => {
+    while (isActive()) {
+      await waitWhilePaused();
+      const remaining = time - audioContextRef.current!.currentTime;
+      if (remaining <= 0) return;
+      await new Promise(r => setTimeout(r, remaining * 1000));
+    }
   };
 
   const playTTS = async () => {
     if (!doc) return;
-    if (ttsState.isPlaying) { stopPlayback(); return; }
+    if (ttsState.isPlaying) {
+      if (isPausedRef.current) resumePlayback();
+      else pausePlayback();
+      return;
+    }
+    startReading({ page: ttsState.currentPage, block: ttsState.currentBlockIndex });
+  };
 
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    } else if (audioContextRef.current.state === 'suspended') {
-      await audioContextRef.current.resume();
+  const restartFromCurrentWord = () => {
+    if (activeWord) seekToWord(activeWord.page, activeWord.block, activeWord.word);
+    else seekToWord(ttsState.currentPage, ttsState.currentBlockIndex, 0);
+  };
+
+  /**
+   * The nearest readable block before or after the given one, crossing pages.
+   * Pages not analyzed yet have no blocks; their start is returned and filled in on arrival.
+   */
+  const neighbourBlock = (page: number, block: number, direction: 1 | -1): ReadingBookmark | null => {
+    const readable = (p: number, b: number) => !doc!.pages[p].blocks[b].furniture || preferences.readFurniture;
+    let p = page;
+    let b = block + direction;
+    while (p >= 0 && p < doc!.pages.length) {
+      const blocks = doc!.pages[p].blocks;
+      if (blocks.length === 0) return { page: p, block: 0 };
+      if (b < 0) b = blocks.length - 1;
+      for (; b >= 0 && b < blocks.length; b += direction) {
+        if (readable(p, b)) return { page: p, block: b };
+      }
+      p += direction;
+      b = direction > 0 ? 0 : -1;
     }
-    
-    setTtsState(prev => ({ ...prev, isPlaying: true }));
-    readLoop();
+    return null;
+  };
+
+  /**
+   * Jump to the previous or next sentence. Going back more than a word into a sentence
+   * restarts it, as a media player's back button restarts the track.
+   */
+  const skipSentence = (direction: 1 | -1) => {
+    if (!doc) return;
+    const page = activeWord?.page ?? ttsState.currentPage;
+    const block = activeWord?.block ?? ttsState.currentBlockIndex;
+    const word = activeWord?.word ?? 0;
+    const content = doc.pages[page]?.blocks[block]?.content;
+    if (content === undefined) return;
+
+    const starts = sentenceWordStarts(content);
+    let current = 0;
+    while (current + 1 < starts.length && starts[current + 1] <= word) current++;
+    const target = direction > 0 ? current + 1 : word - starts[current] > 1 ? current : current - 1;
+
+    if (target >= 0 && target < starts.length) {
+      seekToWord(page, block, starts[target]);
+      return;
+    }
+    const next = neighbourBlock(page, block, direction);
+    if (!next) return;
+    const nextContent = doc.pages[next.page].blocks[next.block]?.content;
+    const nextStarts = direction < 0 && nextContent ? sentenceWordStarts(nextContent) : [0];
+    seekToWord(next.page, next.block, nextStarts[nextStarts.length - 1] || 0);
+  };
+
+  const seekToWord = (page: number, block: number, word: number) => {
+    if (!doc) return;
+    stopPlayback();
+    setActiveWord({ page, block, word });
+    startReading({ page, block, word });
+  };
+
+  const jumpTo = (page: number, block: number) => {
+    if (!doc) return;
+    setActiveWord(null);
+    if (isPlayingRef.current) {
+      stopPlayback();
+      startReading({ page, block });
+    } else {
+      setTtsState(p => ({ ...p, currentPage: page, currentBlockIndex: block }));
+    }
+  };
+
+  // Pages without blocks always need cleanup; laid-out PDF and image pages get it when enabled.
+  const prepareBlocks = async (page: PageContent, pageIndex: number, signal?: AbortSignal) => {
+    const laidOut = doc!.type === 'pdf' || doc!.type === 'image';
+    const needsCleanup = page.blocks.length === 0 || (laidOut && preferences.aiCleanup && !page.cleanup && page.rawText.trim() !== '');
+    if (!needsCleanup) return;
+
+    setProcessingStatus(`Analyzing Page ${pageIndex + 1}...`);
+    try {
+      await cleanPage(doc!.id, page, signal);
+    } catch (err) {
+      // Layout blocks are still readable; cleanup is retried the next time the page comes up.
+      if (page.blocks.length === 0) throw err;
+      if (!isAbortError(err)) console.warn(`Cleanup of page ${page.pageNumber} failed`, err);
+      return;
+    } finally {
+      setProcessingStatus("");
+    }
+    if (!isStreaming(doc!.id)) saveDocument(doc!).catch(e => console.warn('Library save failed', e));
+  };
+
+  const startPipeline = (engine: SpeechEngine, voice: string, from: ReadingPosition, signal: AbortSignal) => {
+    const ctx = audioContextRef.current!;
+    const loading = pdfLoaderRef.current?.docId === doc!.id ? pdfLoaderRef.current.loader : null;
+    const chunks = iterateChunks(doc!, from, prepareBlocks, {
+      includeFurniture: preferences.readFurniture,
+      signal,
+      pageAt: loading?.pageAt
+    });
+
+    const pipeline = createSynthesisPipeline<AudioBuffer | null>(chunks, async (chunk, signal) => {
+      if (engine.kind === 'native') return null;
+      const spoken = normalizeForSpeech(chunk.spoken ?? chunk.text, normalization, chunk.blockType);
+      const cast = castText(spoken, chunk.blockType, doc!.voiceCasting?.[engine.id], voice, engine.capabilities.multiSpeaker);
+      const audioBytes = await engine.synthesize(cast.text, cast.voice, signal, cast.speakers);
+      const decoded = await decodeAudioData(audioBytes, ctx, engine.capabilities.sampleRate!);
+      return stretchBuffer(ctx, decoded, ttsState.speed * prosodyFor(chunk.blockType).rateScale / ttsState.pitch);
+    }, engine.kind === 'pcm' ? LOOK_AHEAD_CHUNKS : 1);
+
+    pipelineRef.current = pipeline;
+    return pipeline;
   };
 
-  const readLoop = async () => {
+  const readLoop = async (from: ReadingPosition, signal: AbortSignal) => {
     if (!doc || !audioContextRef.current) return;
 
-    let pIdx = ttsState.currentPage;
-    let bIdx = ttsState.currentBlockIndex;
+    let engine = getSpeechEngine(ttsState.engine);
+    let voice = ttsState.voice;
+    let position = from;
+    let pipeline = startPipeline(engine, voice, position, signal);
+    const isActive = () => !signal.aborted && pipelineRef.current === pipeline && isPlayingRef.current;
+    const restartAt = (at: ReadingPosition) => {
+      pipeline.cancel();
+      pipeline = startPipeline(engine, voice, at, signal);
+    };
 
-    while (pIdx < doc.pages.length) {
-      const page = doc.pages[pIdx];
-      
-      if (!page.blocks || page.blocks.length === 0) {
-         setProcessingStatus(`Analyzing Page ${pIdx + 1}...`);
-         const cleaned = await processRawLayout(page.rawText);
-         page.blocks = [{ type: 'paragraph', content: cleaned, order: 0, confidence: 1.0 }];
-         setProcessingStatus("");
+    while (isActive()) {
+      await waitWhilePaused();
+      if (!isActive()) return;
+
+      // Buffering starts once the queued audio runs out while the next chunk is still on its way.
+      const queued = Math.max(0, nextStartTimeRef.current - audioContextRef.current.currentTime);
+      const bufferingTimer = setTimeout(() => { if (isActive()) setIsBuffering(true); }, queued * 1000);
+      let item: SynthesizedChunk<AudioBuffer | null> | null;
+      try {
+        item = await pipeline.next();
+      } catch (err) {
+        // A page could not be analyzed: nothing on it is readable until that is retried.
+        const pageIndex = err instanceof PagePreparationError ? err.pageIndex : position.page;
+        const cause = err instanceof PagePreparationError ? err.cause : err;
+        if (!isActive()) return;
+        clearTimeout(bufferingTimer);
+        setIsBuffering(false);
+        if (isAbortError(cause)) return;
+        const decision = await awaitFailureDecision(`Page ${pageIndex + 1} could not be analyzed`, cause);
+        if (!isActive()) return;
+        if (decision === 'retry') restartAt({ page: pageIndex, block: 0 });
+        // Past the last page the new pipeline simply ends.
+        else restartAt({ page: pageIndex + 1, block: 0 });
+        continue;
+      }
+      clearTimeout(bufferingTimer);
+      setIsBuffering(false);
+      if (!isActive()) return;
+      if (!item) break;
+
+      const { chunk } = item;
+      position = { page: chunk.pageIndex, block: chunk.blockIndex, word: chunk.wordOffset };
+
+      if (!item.ok) {
+        if (engine.id !== webSpeechEngine.id && shouldFallBack(item.error) && webSpeechEngine.isAvailable()) {
+          // Remote engine is down or out of quota: continue from this chunk offline.
+          pipeline.cancel();
+          const fallbackVoices = await webSpeechEngine.getVoices();
+          engine = webSpeechEngine;
+          voice = fallbackVoices[0]?.id || '';
+          setEngineNotice(`${getSpeechEngine(ttsState.engine).label} unavailable, switched to ${webSpeechEngine.label} voice`);
+          setTtsState(prev => ({ ...prev, engine: webSpeechEngine.id, voice }));
+          restartAt(position);
+          continue;
+        }
+        if (isAbortError(item.error)) continue;
+        console.error("Audio block failed", item.error);
+        // Playback holds here rather than dropping the passage; the user retries or moves on.
+        const decision = await awaitFailureDecision(`Page ${chunk.pageIndex + 1}, block ${chunk.blockIndex + 1} could not be synthesized`, item.error);
+        if (!isActive()) return;
+        if (decision === 'retry') restartAt(position);
+        continue;
       }
 
-      while (bIdx < (page.blocks?.length || 0)) {
-        if (!isPlayingRef.current) return;
-        
-        const block = page.blocks[bIdx];
-        setCurrentText(block.content);
-        setTtsState(prev => ({ ...prev, currentPage: pIdx, currentBlockIndex: bIdx }));
+      setCurrentText(pageAt(chunk.pageIndex)!.blocks[chunk.blockIndex].content);
+      setTtsState(prev => ({ ...prev, currentPage: chunk.pageIndex, currentBlockIndex: chunk.blockIndex }));
 
+      const chunkWords = tokenizeWords(chunk.text);
+      const prosody = prosodyFor(chunk.blockType);
+      const pauseBefore = chunk.chunkIndex === 0 ? prosody.pauseBefore : 0;
+      const pauseAfter = chunk.isLastInBlock ? prosody.pauseAfter : 0;
+      const rate = ttsState.speed * prosody.rateScale;
+
+      if (engine.kind === 'native') {
+        // Boundaries refer to the normalized text; map them back onto the displayed words proportionally.
+        const spoken = normalizeForSpeech(chunk.spoken ?? chunk.text, normalization, chunk.blockType);
+        const spokenWords = tokenizeWords(spoken);
+        const onBoundary = (charIndex: number) => setActiveWord({
+          page: chunk.pageIndex,
+          block: chunk.blockIndex,
+          word: chunk.wordOffset + Math.min(
+            chunkWords.length - 1,
+            Math.floor(wordIndexAt(spokenWords, charIndex) * chunkWords.length / Math.max(1, spokenWords.length))
+          )
+        });
         try {
-          const audioBytes = await generateSpeech(block.content, ttsState.voice);
-          const audioBuffer = await decodeAudioData(audioBytes, audioContextRef.current);
-          
-          const source = audioContextRef.current.createBufferSource();
-          source.buffer = audioBuffer;
-          source.connect(audioContextRef.current.destination);
-          source.playbackRate.value = ttsState.speed;
-
-          const now = audioContextRef.current.currentTime;
-          const startTime = Math.max(nextStartTimeRef.current, now);
-          
-          source.start(startTime);
-          nextStartTimeRef.current = startTime + (audioBuffer.duration / ttsState.speed);
-          
-          activeSourcesRef.current.add(source);
-          source.onended = () => activeSourcesRef.current.delete(source);
-
-          const waitTime = (startTime - now) * 1000 + ((audioBuffer.duration / ttsState.speed) * 1000) - 150;
-          await new Promise(r => setTimeout(r, Math.max(0, waitTime)));
+          if (pauseBefore) await new Promise(r => setTimeout(r, pauseBefore * 1000));
+          const castVoice = castText(spoken, chunk.blockType, doc.voiceCasting?.[engine.id], voice, false).voice;
+          await engine.speak(spoken, { voice: castVoice, rate, pitch: ttsState.pitch, volume: ttsState.volume, onBoundary });
+          if (pauseAfter) await new Promise(r => setTimeout(r, pauseAfter * 1000));
         } catch (e) {
           console.error("Audio block failed", e);
+          if (!isActive()) return;
+          const decision = await awaitFailureDecision(`Page ${chunk.pageIndex + 1}, block ${chunk.blockIndex + 1} could not be spoken`, e);
+          if (!isActive()) return;
+          if (decision === 'retry') restartAt(position);
         }
-        bIdx++;
+        continue;
       }
-      pIdx++;
-      bIdx = 0;
+
+      const audioBuffer = item.result!;
+      const source = audioContextRef.current.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(analyserRef.current!);
+      // The buffer is already stretched to the reading speed; the rate left over shifts pitch only.
+      const pitch = ttsState.pitch;
+      source.playbackRate.value = pitch;
+
+      const now = audioContextRef.current.currentTime;
+      const startTime = Math.max(nextStartTimeRef.current, now) + pauseBefore;
+      const clipDuration = audioBuffer.duration / pitch;
+      
+      source.start(startTime);
+      nextStartTimeRef.current = startTime + clipDuration + pauseAfter;
+      
+      activeSourcesRef.current.add(source);
+      source.onended = () => activeSourcesRef.current.delete(source);
+
+      const wordTimes = estimateWordTimings(chunkWords, audioBuffer.getChannelData(0), audioBuffer.sampleRate).map(t => startTime + t / pitch);
+      wordTimes.forEach((time, i) => {
+        wordScheduleRef.current.push({
+          time,
+          page: chunk.pageIndex,
+          block: chunk.blockIndex,
+          word: chunk.wordOffset + i
+        });
+      });
+
+      // Hand the clip to the scrubber when it becomes audible, not when it is queued.
+      const clip: ScrubberClip = { buffer: audioBuffer, startTime, playbackRate: pitch, wordTimes };
+      const seekTarget = { page: chunk.pageIndex, block: chunk.blockIndex, wordOffset: chunk.wordOffset };
+      setTimeout(() => {
+        if (!isActive()) return;
+        clipTargetRef.current = seekTarget;
+        setCurrentClip(clip);
+      }, Math.max(0, (startTime - now) * 1000));
+
+      // Wake up shortly before this clip ends so the next (already synthesized) chunk is queued back-to-back.
+      await waitUntilAudioTime(startTime + clipDuration - 0.15, isActive);
     }
+
+    if (signal.aborted || pipelineRef.current !== pipeline) return;
+    pipelineRef.current = null;
+    sessionRef.current = null;
+    if (!isPlayingRef.current) return;
+    setActiveWord(null);
     setTtsState(prev => ({ ...prev, isPlaying: false, currentPage: 0, currentBlockIndex: 0 }));
   };
 
+  // Volume rides on the output gain, so it applies to audio that is already queued.
+  useEffect(() => {
+    const ctx = audioContextRef.current;
+    if (ctx && gainRef.current) gainRef.current.gain.setTargetAtTime(ttsState.volume, ctx.currentTime, 0.05);
+  }, [ttsState.volume]);
+
+  // Queued audio is stretched for the old speed and pitch; once the slider settles, re-synthesize from the current word.
+  useEffect(() => {
+    if (!isPlayingRef.current || isPausedRef.current) return;
+    const { speed, pitch } = playbackParamsRef.current;
+    if (speed === ttsState.speed && pitch === ttsState.pitch) return;
+    const timer = setTimeout(restartFromCurrentWord, 300);
+    return () => clearTimeout(timer);
+  }, [ttsState.speed, ttsState.pitch]);
+
+  // Media Session: lock screen, headset buttons and media keys. Handlers are registered once and call the latest closures.
+  const mediaActionsRef = useRef({ play: playTTS, pause: pausePlayback, stop: stopPlayback, skip: skipSentence });
+  mediaActionsRef.current = { play: playTTS, pause: pausePlayback, stop: stopPlayback, skip: skipSentence };
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => { if (!isPlayingRef.current || isPausedRef.current) mediaActionsRef.current.play(); }],
+      ['pause', () => mediaActionsRef.current.pause()],
+      ['stop', () => mediaActionsRef.current.stop()],
+      ['previoustrack', () => mediaActionsRef.current.skip(-1)],
+      ['nexttrack', () => mediaActionsRef.current.skip(1)],
+      ['seekbackward', () => mediaActionsRef.current.skip(-1)],
+      ['seekforward', () => mediaActionsRef.current.skip(1)]
+    ];
+    for (const [action, handler] of handlers) {
+      // Browsers throw for actions they do not support.
+      try { navigator.mediaSession.setActionHandler(action, handler); } catch {}
+    }
+    return () => {
+      for (const [action] of handlers) {
+        try { navigator.mediaSession.setActionHandler(action, null); } catch {}
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || typeof MediaMetadata === 'undefined') return;
+    navigator.mediaSession.metadata = doc
+      ? new MediaMetadata({
+          title: currentSection >= 0 ? outline[currentSection].title : `Page ${ttsState.currentPage + 1}`,
+          artist: doc.name,
+          album: 'OmniVoice'
+        })
+      : null;
+  }, [doc, outline, currentSection, ttsState.currentPage]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.playbackState = !ttsState.isPlaying ? 'none' : ttsState.isPaused ? 'paused' : 'playing';
+  }, [ttsState.isPlaying, ttsState.isPaused]);
+
+  const activeBlock = doc && activeWord ? doc.pages[activeWord.page]?.blocks[activeWord.block] : undefined;
+
   return (
     <div className="min-h-screen bg-[#0F1115] text-white flex flex-col font-sans selection:bg-indigo-500/30">
       <header className="p-6 flex items-center justify-between border-b border-white/5 sticky top-0 bg-[#0F1115]/80 backdrop-blur-xl z-50">
@@ -177,11 +960,100 @@ const App: React.FC = () => {
             <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest leading-none">AI Intelligence</p>
           </div>
         </div>
-        {doc && (
-          <button onClick={() => { stopPlayback(); setDoc(null); }} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">DISMISS</button>
-        )}
+        <div className="flex items-center gap-6">
+          <button onClick={() => setShowLexicon(true)} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">LEXICON</button>
+          <button onClick={() => setShowSettings(true)} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">SETTINGS</button>
+          {doc && (
+            <button onClick={() => { stopPlayback(); setDoc(null); }} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">LIBRARY</button>
+          )}
+        </div>
       </header>
 
+      <ErrorTray errors={errors} onDismiss={dismissError} />
+      <SettingsPanel isOpen={showSettings} onClose={() => setShowSettings(false)} />
+      <LexiconPanel
+        isOpen={showLexicon}
+        onClose={() => setShowLexicon(false)}
+        entries={lexicon}
+        onChange={updateLexicon}
+        rules={preferences.normalization}
+        onRulesChange={(rules) => updatePreferences({ normalization: rules })}
+        mathVerbosity={preferences.mathVerbosity}
+        onMathVerbosityChange={(mathVerbosity) => updatePreferences({ mathVerbosity })}
+        onPreview={previewSpeech}
+      />
+      {doc && (
+        <ExportPanel
+          isOpen={showExport}
+          onClose={() => setShowExport(false)}
+          doc={doc}
+          engine={getSpeechEngine(ttsState.engine)}
+          voice={ttsState.voice}
+          speed={ttsState.speed}
+          includeFurniture={preferences.readFurniture}
+          normalization={normalization}
+          prepareBlocks={prepareBlocks}
+        />
+      )}
+      {doc && (
+        <VoiceCastingPanel
+          isOpen={showVoices}
+          onClose={() => setShowVoices(false)}
+          engineLabel={getSpeechEngine(ttsState.engine).label}
+          voices={voices}
+          defaultVoice={ttsState.voice}
+          casting={doc.voiceCasting?.[ttsState.engine] || {}}
+          onChange={updateCasting}
+          multiSpeaker={getSpeechEngine(ttsState.engine).capabilities.multiSpeaker}
+          onPreview={previewSpeech}
+        />
+      )}
+      {doc && (
+        <AskPanel
+          isOpen={showAsk}
+          onClose={() => setShowAsk(false)}
+          doc={doc}
+          outline={outline}
+          currentSection={currentSection}
+          onCite={(ref) => { setShowAsk(false); seekToWord(ref.page, ref.block, 0); }}
+          onSpeak={async (text) => {
+            // Answers are read on their own, not over the document.
+            if (isPlayingRef.current) stopPlayback();
+            await previewSpeech(text);
+          }}
+        />
+      )}
+      {doc && (
+        <OutlinePanel
+          isOpen={showOutline}
+          onClose={() => setShowOutline(false)}
+          outline={outline}
+          embedded={!!doc.outline?.length}
+          currentIndex={currentSection}
+          onSelect={(entry) => { setShowOutline(false); jumpTo(entry.page, entry.block); }}
+        />
+      )}
+      {doc && (
+        <FurnitureReview
+          isOpen={showFurniture}
+          onClose={() => setShowFurniture(false)}
+          doc={doc}
+          readFurniture={preferences.readFurniture}
+          onToggleReadFurniture={(readFurniture) => updatePreferences({ readFurniture })}
+          onRestore={restoreFurniture}
+        />
+      )}
+      {doc && (
+        <CleanupDiff
+          isOpen={showCleanup}
+          onClose={() => setShowCleanup(false)}
+          doc={doc}
+          currentPage={ttsState.currentPage}
+          aiCleanup={preferences.aiCleanup}
+          onToggleAiCleanup={(aiCleanup) => updatePreferences({ aiCleanup })}
+        />
+      )}
+
       <main className="flex-1 flex flex-col items-center justify-center p-6 relative overflow-hidden">
         {/* Background Decorative Elements */}
         <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[600px] h-[600px] bg-indigo-600/10 blur-[120px] rounded-full -z-10 pointer-events-none"></div>
@@ -200,8 +1072,8 @@ const App: React.FC = () => {
                   <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
                 </div>
                 <p className="text-xl font-bold mb-1">Upload Document</p>
-                <p className="text-gray-500 text-sm">PDF, Image, or Text files</p>
-                <input type="file" className="hidden" accept=".pdf,image/*,.txt" onChange={handleFileUpload} disabled={isProcessing} />
+                <p className="text-gray-500 text-sm">PDF, EPUB, Word, HTML, Markdown, Image, or Text files</p>
+                <input type="file" className="hidden" accept=".pdf,.epub,.docx,.html,.htm,.md,.markdown,.txt,image/*" onChange={handleFileUpload} disabled={isProcessing} />
               </div>
             </label>
 
@@ -211,12 +1083,30 @@ const App: React.FC = () => {
                 <p className="text-indigo-400 font-bold text-xs uppercase tracking-widest">{processingStatus}</p>
               </div>
             )}
+
+            <LibraryView onOpen={openFromLibrary} disabled={isProcessing} />
           </div>
         ) : (
-          <div className="w-full max-w-4xl space-y-6 animate-in slide-in-from-bottom-8 duration-1000 pb-32">
+          <div className={`w-full animate-in slide-in-from-bottom-8 duration-1000 pb-32 ${showPageView && sourceFile ? 'max-w-7xl grid lg:grid-cols-2 gap-6 items-start' : 'max-w-4xl space-y-6'}`}>
+            {showPageView && sourceFile && doc.pages[ttsState.currentPage] && (
+              <div className="lg:sticky lg:top-28">
+                <PageView
+                  source={sourceFile}
+                  sourceType={doc.type === 'image' ? 'image' : 'pdf'}
+                  page={doc.pages[ttsState.currentPage]}
+                  pageIndex={ttsState.currentPage}
+                  activeBlock={activeWord?.page === ttsState.currentPage ? activeWord.block : ttsState.isPlaying ? ttsState.currentBlockIndex : null}
+                  onSelectBlock={(block) => seekToWord(ttsState.currentPage, block, 0)}
+                />
+              </div>
+            )}
             <div className="bg-[#1A1D24] border border-white/5 rounded-[3rem] p-8 md:p-16 shadow-2xl relative overflow-hidden">
                <div className="absolute top-0 right-0 p-8">
-                 <Visualizer isPlaying={ttsState.isPlaying} />
+                 <Visualizer
+                   isPlaying={ttsState.isPlaying && !ttsState.isPaused}
+                   isBuffering={isBuffering}
+                   analyser={getSpeechEngine(ttsState.engine).kind === 'pcm' ? analyser : null}
+                 />
                </div>
                
                <div className="space-y-12">
@@ -224,12 +1114,71 @@ const App: React.FC = () => {
                     <span className="px-3 py-1 bg-indigo-500/10 text-indigo-400 text-[10px] font-black tracking-widest rounded-full uppercase">
                       Page {ttsState.currentPage + 1}
                     </span>
-                    <span className="text-gray-600 text-[10px] font-bold uppercase tracking-widest">{doc.name}</span>
+                    {pdfLoad && (
+                      <span className="shrink-0 flex items-center gap-2 text-[10px] font-bold text-gray-500 uppercase tracking-widest">
+                        {pdfLoad.stopped ? (
+                          <span title="Only these pages were loaded, so the document was not added to the library">
+                            {pdfLoad.progress.pages} of {pdfLoad.progress.total} pages · not saved
+                          </span>
+                        ) : (
+                          <>
+                            <span className="animate-pulse">Loading {pdfLoad.progress.pages}/{pdfLoad.progress.total}</span>
+                            <button onClick={() => pdfLoaderRef.current?.loader.cancel()} className="font-black hover:text-white transition-colors">Stop</button>
+                          </>
+                        )}
+                      </span>
+                    )}
+                    <button onClick={() => setShowOutline(true)} className="min-w-0 flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest hover:text-white transition-colors">
+                      <span className="text-gray-600 shrink-0">{doc.name}</span>
+                      {currentSection >= 0 && (
+                        <span className="text-gray-400 truncate" title={outline[currentSection].title}>· {outline[currentSection].title}</span>
+                      )}
+                    </button>
+                    <button onClick={() => setShowOutline(true)} className="ml-auto text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors">Contents</button>
+                    {sourceFile && (
+                      <button onClick={() => setShowPageView(v => !v)} className={`text-[10px] font-black uppercase tracking-widest transition-colors ${showPageView ? 'text-indigo-400' : 'text-gray-500 hover:text-white'}`}>Page</button>
+                    )}
+                    <button onClick={() => setShowFurniture(true)} className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors">
+                      Removed ({doc.pages.reduce((acc, p) => acc + p.blocks.filter(b => b.furniture).length, 0)})
+                    </button>
+                    <button onClick={() => setShowCleanup(true)} className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors">Changes</button>
+                    <button onClick={() => setShowAsk(true)} className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors">Ask</button>
+                    <button onClick={() => setShowVoices(true)} className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors">Voices</button>
+                    {!pdfLoad && (
+                      <button onClick={() => setShowExport(true)} className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors">Export Audio</button>
+                    )}
                   </div>
 
                   <div className="text-3xl md:text-5xl font-bold leading-[1.3] text-gray-100 min-h-[300px] selection:bg-indigo-600 selection:text-white">
-                    {currentText || "Starting synthesis..."}
+                    {activeWord && activeBlock?.table ? (
+                      <TableView
+                        table={activeBlock.table}
+                        activeWord={activeWord.word}
+                        onReadFrom={(word) => seekToWord(activeWord.page, activeWord.block, word)}
+                        onAnnounce={announceCell}
+                      />
+                    ) : activeWord && activeBlock ? (
+                      <ReadingView
+                        text={activeBlock.content}
+                        type={activeBlock.type}
+                        activeWord={activeWord.word}
+                        onWordClick={(word) => seekToWord(activeWord.page, activeWord.block, word)}
+                      />
+                    ) : (
+                      currentText || "Starting synthesis..."
+                    )}
                   </div>
+
+                  {ttsState.isPlaying && (
+                    <WaveformScrubber
+                      clip={currentClip}
+                      context={audioContextRef.current}
+                      onSeek={(word) => {
+                        const target = clipTargetRef.current;
+                        if (target) seekToWord(target.page, target.block, target.wordOffset + word);
+                      }}
+                    />
+                  )}
                </div>
             </div>
           </div>
@@ -242,16 +1191,31 @@ const App: React.FC = () => {
           <div className="bg-[#1A1D24]/90 backdrop-blur-2xl border border-white/10 rounded-[2.5rem] p-6 shadow-[0_30px_60px_rgba(0,0,0,0.5)]">
             <div className="flex items-center justify-between gap-8">
               <div className="flex items-center gap-4">
+                <button
+                  onClick={() => skipSentence(-1)}
+                  title="Previous sentence"
+                  className="p-2 text-gray-400 hover:text-white transition-colors"
+                >
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h2v12H6zm3.5 6l8.5 6V6z"/></svg>
+                </button>
                 <button 
                   onClick={playTTS}
+                  title={ttsState.isPlaying && !ttsState.isPaused ? 'Pause' : 'Play'}
                   className="w-16 h-16 bg-white text-black rounded-3xl flex items-center justify-center hover:scale-105 active:scale-95 transition-all shadow-xl"
                 >
-                  {ttsState.isPlaying ? (
+                  {ttsState.isPlaying && !ttsState.isPaused ? (
                     <svg className="w-7 h-7" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>
                   ) : (
                     <svg className="w-7 h-7 ml-1" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
                   )}
                 </button>
+                <button
+                  onClick={() => skipSentence(1)}
+                  title="Next sentence"
+                  className="p-2 text-gray-400 hover:text-white transition-colors"
+                >
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"/></svg>
+                </button>
 
                 <div className="space-y-1">
                   <div className="flex items-center justify-between">
@@ -264,41 +1228,67 @@ const App: React.FC = () => {
                     onChange={(e) => setTtsState(p => ({...p, speed: parseFloat(e.target.value)}))}
                     className="w-32 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white"
                   />
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Pitch</span>
+                    <span className="text-[10px] font-black text-indigo-400">{ttsState.pitch.toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range" min="0.5" max="1.5" step="0.05"
+                    value={ttsState.pitch}
+                    onChange={(e) => setTtsState(p => ({...p, pitch: parseFloat(e.target.value)}))}
+                    className="w-32 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white"
+                  />
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Volume</span>
+                    <span className="text-[10px] font-black text-indigo-400">{Math.round(ttsState.volume * 100)}%</span>
+                  </div>
+                  <input
+                    type="range" min="0" max="1" step="0.05"
+                    value={ttsState.volume}
+                    onChange={(e) => setTtsState(p => ({...p, volume: parseFloat(e.target.value)}))}
+                    className="w-32 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white"
+                  />
                 </div>
               </div>
 
               <div className="flex-1 flex flex-col items-center">
                  <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">Voice Engine</span>
-                 <div className="flex bg-white/5 rounded-2xl p-1 gap-1">
-                   {['Kore', 'Puck', 'Zephyr'].map(v => (
-                     <button 
-                       key={v}
-                       onClick={() => setTtsState(p => ({...p, voice: v}))}
-                       className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${ttsState.voice === v ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
-                     >
-                       {v}
-                     </button>
-                   ))}
+                 <div className="flex items-center gap-2">
+                   <div className="flex bg-white/5 rounded-2xl p-1 gap-1">
+                     {SPEECH_ENGINES.filter(e => e.isAvailable() || e.id === ttsState.engine).map(e => (
+                       <button 
+                         key={e.id}
+                         onClick={() => selectEngine(e.id)}
+                         className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${ttsState.engine === e.id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                       >
+                         {e.label}
+                       </button>
+                     ))}
+                   </div>
+                   <select
+                     value={ttsState.voice}
+                     onChange={(e) => setTtsState(p => ({...p, voice: e.target.value}))}
+                     className="max-w-[9rem] bg-white/5 rounded-2xl px-3 py-2 text-[10px] font-black uppercase text-gray-300 outline-none cursor-pointer"
+                   >
+                     {voices.map(v => (
+                       <option key={v.id} value={v.id} className="bg-[#1A1D24] normal-case">{v.label}{v.lang ? ` (${v.lang})` : ''}</option>
+                     ))}
+                   </select>
                  </div>
+                 {engineNotice && (
+                   <span className="mt-2 text-[10px] font-bold text-amber-400">{engineNotice}</span>
+                 )}
               </div>
 
               <div className="flex gap-2">
                 <button 
-                  onClick={() => {
-                    const next = Math.max(0, ttsState.currentPage - 1);
-                    setTtsState(p => ({...p, currentPage: next, currentBlockIndex: 0}));
-                    if (isPlayingRef.current) { stopPlayback(); setTimeout(playTTS, 100); }
-                  }}
+                  onClick={() => jumpTo(Math.max(0, ttsState.currentPage - 1), 0)}
                   className="p-3 bg-white/5 rounded-2xl text-gray-400 hover:text-white hover:bg-white/10 transition-all"
                 >
                   <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path d="M8.445 14.832A1 1 0 0010 14V6a1 1 0 00-1.555-.832l-6 4a1 1 0 000 1.664l6 4z" /></svg>
                 </button>
                 <button 
-                  onClick={() => {
-                    const next = Math.min(doc.pages.length - 1, ttsState.currentPage + 1);
-                    setTtsState(p => ({...p, currentPage: next, currentBlockIndex: 0}));
-                    if (isPlayingRef.current) { stopPlayback(); setTimeout(playTTS, 100); }
-                  }}
+                  onClick={() => jumpTo(Math.min(doc.pages.length - 1, ttsState.currentPage + 1), 0)}
                   className="p-3 bg-white/5 rounded-2xl text-gray-400 hover:text-white hover:bg-white/10 transition-all"
                 >
                   <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path d="M4.555 5.168A1 1 0 003 6v8a1 1 0 001.555.832l6-4a1 1 0 000-1.664l-6-4z" /></svg>
@@ -0,0 +1,278 @@
+/**
+ * Headless narration: PDFs in, WAV files out, for batch jobs that cannot click through the reader.
+ *
+ *   npm run narrate -- <input.pdf...> <out-dir> [--voice Kore] [--speed 1.0] [--pages 3-10]
+ *                      [--split document|chapter] [--no-cleanup] [--read-furniture] [--endpoint URL]
+ *
+ * Pages go through the same layout analysis, AI cleanup and chunking as in the browser, but
+ * Gemini is called directly with GEMINI_API_KEY. `--endpoint` (or GEMINI_BASE_URL) points the
+ * calls at another host, such as a local stub. Scanned pages are skipped: OCR needs the browser.
+ */
+
+import { mkdir, open, readFile, rename, unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { createGeminiClient, generateSpeech, processRawLayout } from '../server/gemini.js';
+import { DocumentData, PageContent } from '../types';
+import { analyzePdf } from '../services/pdfExtraction';
+import { validateLayoutBlocks } from '../services/geminiService';
+import { createSynthesisPipeline, iterateChunks, SpeechChunk } from '../services/synthesisPipeline';
+import { cleanupText, mergeRewrittenBlocks, paragraphBlocks } from '../utils/layoutEngine';
+import { DEFAULT_NORMALIZATION_RULES, normalizeForSpeech, SpeechNormalization } from '../utils/textNormalizer';
+import { CueMarker, encodeCueChunks, encodeWavHeader, stretchPcm16 } from '../utils/wav';
+import { isTransientStatus, withRetry } from '../utils/retry';
+
+const SAMPLE_RATE = 24000;
+const SYNTHESIS_CONCURRENCY = 3;
+const MAX_TITLE = 60;
+
+const USAGE = `Usage: npm run narrate -- <input.pdf...> <out-dir> [options]
+
+Options:
+  --voice <name>        Prebuilt Gemini voice (default Kore)
+  --speed <rate>        0.5 to 2.0 (default 1.0)
+  --pages <range>       Pages to read, e.g. 5, 3-10 or 12- (default all)
+  --split <mode>        "document" for one WAV with chapter markers, "chapter" for one WAV per chapter
+  --no-cleanup          Read the layout engine's blocks without AI cleanup
+  --read-furniture      Also read running heads, footers and page numbers
+  --endpoint <url>      Gemini API base URL (default GEMINI_BASE_URL, else Google)
+`;
+
+interface NarrateOptions {
+  voice: string;
+  speed: number;
+  /** Zero-based, end exclusive. */
+  pages: { from: number; to: number };
+  split: 'document' | 'chapter';
+  cleanup: boolean;
+  readFurniture: boolean;
+}
+
+class UsageError extends Error {}
+
+function parsePageRange(range: string | undefined): { from: number; to: number } {
+  if (!range) return { from: 0, to: Infinity };
+  const match = range.match(/^(\d+)(?:-(\d*))?$/);
+  const first = match ? parseInt(match[1], 10) : 0;
+  const last = !match ? 0 : match[2] === undefined ? first : match[2] === '' ? Infinity : parseInt(match[2], 10);
+  if (!match || first < 1 || last < first) throw new UsageError(`--pages must look like 5, 3-10 or 12-, got "${range}"`);
+  return { from: first - 1, to: last };
+}
+
+// The SDK's errors carry the HTTP status. It passes fetch's own rejection through, which in Node
+// is a TypeError "fetch failed" when no response arrived (status 0); other TypeErrors are bugs.
+function isTransient(error: unknown): boolean {
+  const status = error instanceof TypeError
+    ? (error.message === 'fetch failed' ? 0 : undefined)
+    : typeof error === 'object' && error !== null && 'status' in error ? error.status : undefined;
+  return typeof status === 'number' && isTransientStatus(status);
+}
+
+function fileSafe(text: string): string {
+  return text.replace(/[\\/:*?"<>|\s]+/g, ' ').trim().slice(0, MAX_TITLE).trim() || 'untitled';
+}
+
+/**
+ * A WAV file written as audio arrives. Audio goes to a `.part` file whose header is rewritten
+ * with the real sizes on close, and which only takes the final name once that succeeds; a run
+ * that fails part-way discards it instead of leaving a truncated WAV behind.
+ */
+async function createWavWriter(filePath: string) {
+  const partPath = `${filePath}.part`;
+  const file = await open(partPath, 'w');
+  await file.write(encodeWavHeader(0, SAMPLE_RATE));
+  const markers: CueMarker[] = [];
+  let frames = 0;
+
+  return {
+    async append(pcm: Uint8Array) {
+      await file.write(pcm);
+      frames += pcm.byteLength / 2;
+    },
+    mark(label: string) {
+      markers.push({ frame: frames, label });
+    },
+    async close(): Promise<number> {
+      const cues = encodeCueChunks(markers);
+      await file.write(cues);
+      await file.write(encodeWavHeader(frames * 2, SAMPLE_RATE, 1, cues.byteLength), 0, 44, 0);
+      await file.close();
+      await rename(partPath, filePath);
+      return frames / SAMPLE_RATE;
+    },
+    async discard() {
+      await file.close().catch(() => {});
+      await unlink(partPath).catch(() => {});
+    }
+  };
+}
+
+async function narrate(input: string, outDir: string, options: NarrateOptions, ai: ReturnType<typeof createGeminiClient>) {
+  const name = path.basename(input);
+  const baseName = name.replace(/\.[^.]+$/, '');
+  const pdf = await pdfjsLib.getDocument({
+    data: new Uint8Array(await readFile(input)),
+    verbosity: pdfjsLib.VerbosityLevel.ERRORS
+  }).promise;
+
+  const pageCount = pdf.numPages;
+  if (options.pages.from >= pageCount) {
+    await pdf.destroy();
+    throw new UsageError(`${name} has ${pageCount} pages; nothing in the requested range`);
+  }
+
+  // Only the requested pages are laid out; outline entries come back relative to them.
+  const parsed = await analyzePdf(pdf, {
+    range: options.pages,
+    recognize: async (pageNumber) => {
+      console.warn(`  page ${pageNumber} looks scanned; OCR is only available in the browser, skipping it`);
+      return [];
+    }
+  }).finally(() => pdf.destroy());
+
+  const embedded = parsed.outline;
+  const doc: DocumentData = {
+    id: baseName,
+    name,
+    type: 'pdf',
+    pages: parsed.pages,
+    totalBlocks: parsed.pages.length,
+    ...(embedded.length > 0 ? { outline: embedded } : {})
+  };
+
+  // Same rule as the reader: pages without blocks always get cleanup, the rest when it is on.
+  const prepareBlocks = async (page: PageContent) => {
+    if (page.cleanup || !page.rawText.trim()) return;
+    if (!options.cleanup && page.blocks.length > 0) return;
+    if (options.cleanup) {
+      const text = cleanupText(page);
+      const blocks = text.trim()
+        ? validateLayoutBlocks(await withRetry(() => processRawLayout(ai, text), { isRetryable: isTransient }))
+        : [];
+      if (blocks) {
+        page.blocks = mergeRewrittenBlocks(page, blocks);
+        page.cleanup = 'ai';
+        return;
+      }
+      console.warn(`  page ${page.pageNumber}: layout model returned malformed blocks, keeping layout blocks`);
+    }
+    if (page.blocks.length === 0) page.blocks = paragraphBlocks(page.rawText);
+    page.cleanup = 'layout';
+  };
+
+  // Chapters start at the top-level entries of the embedded outline, else at every heading.
+  // Cleanup renumbers a page's blocks, so embedded entries count from the start of their page.
+  const topLevel = Math.min(...embedded.map(e => e.level));
+  const embeddedStarts = new Map<number, string>();
+  embedded.filter(e => e.level === topLevel).forEach(e => { if (!embeddedStarts.has(e.page)) embeddedStarts.set(e.page, e.title); });
+  const chapterStart = (chunk: SpeechChunk): string | null => {
+    if (embedded.length > 0) return chunk.pageIndex !== lastPage ? embeddedStarts.get(chunk.pageIndex) ?? null : null;
+    if (chunk.chunkIndex !== 0 || chunk.blockType !== 'heading') return null;
+    return doc.pages[chunk.pageIndex].blocks[chunk.blockIndex].content.replace(/\s+/g, ' ').trim() || null;
+  };
+
+  const normalization: SpeechNormalization = { lexicon: [], rules: DEFAULT_NORMALIZATION_RULES, mathVerbosity: 'standard' };
+  const pipeline = createSynthesisPipeline<Uint8Array>(
+    iterateChunks(doc, { page: 0, block: 0 }, prepareBlocks, { includeFurniture: options.readFurniture }),
+    async (chunk) => {
+      const text = normalizeForSpeech(chunk.spoken ?? chunk.text, normalization, chunk.blockType);
+      const audio = await withRetry(() => generateSpeech(ai, text, options.voice), { isRetryable: isTransient });
+      return stretchPcm16(new Uint8Array(Buffer.from(audio, 'base64')), options.speed, SAMPLE_RATE);
+    },
+    SYNTHESIS_CONCURRENCY
+  );
+
+  let writer: Awaited<ReturnType<typeof createWavWriter>> | null = null;
+  let fileName = '';
+  // Anything before the first chapter goes out under the document's name.
+  let chapter = { number: 0, title: baseName };
+  let lastPage = -1;
+  const finishFile = async () => {
+    const seconds = await writer!.close();
+    console.log(`  wrote ${fileName} (${Math.round(seconds)} s)`);
+    writer = null;
+  };
+
+  try {
+    for (let item = await pipeline.next(); item; item = await pipeline.next()) {
+      if (!item.ok) throw item.error;
+      const { chunk } = item;
+
+      const title = chapterStart(chunk);
+      if (title) {
+        chapter = { number: chapter.number + 1, title };
+        if (options.split === 'chapter' && writer) await finishFile();
+      }
+      if (chunk.pageIndex !== lastPage) {
+        lastPage = chunk.pageIndex;
+        console.log(`  page ${doc.pages[chunk.pageIndex].pageNumber} of ${pageCount}`);
+      }
+
+      if (!writer) {
+        fileName = options.split === 'chapter'
+          ? `${baseName} - ${String(chapter.number).padStart(2, '0')} ${fileSafe(chapter.title)}.wav`
+          : `${baseName}.wav`;
+        writer = await createWavWriter(path.join(outDir, fileName));
+      }
+      if (title) writer.mark(title);
+      await writer.append(item.result!);
+    }
+    if (writer) await finishFile();
+    else console.warn(`  ${name} has nothing to read in the requested pages`);
+  } finally {
+    // After a failure, stop the synthesis still queued and drop the unfinished file.
+    pipeline.cancel();
+    if (writer) await writer.discard();
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      voice: { type: 'string', default: 'Kore' },
+      speed: { type: 'string', default: '1.0' },
+      pages: { type: 'string' },
+      split: { type: 'string', default: 'document' },
+      'no-cleanup': { type: 'boolean', default: false },
+      'read-furniture': { type: 'boolean', default: false },
+      endpoint: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (positionals.length < 2) throw new UsageError('Give at least one input PDF and an output directory.');
+  const inputs = positionals.slice(0, -1);
+  const outDir = positionals[positionals.length - 1];
+  const speed = Number(values.speed);
+  if (!(speed >= 0.5 && speed <= 2)) throw new UsageError('--speed must be between 0.5 and 2.0');
+  if (values.split !== 'document' && values.split !== 'chapter') throw new UsageError('--split must be "document" or "chapter"');
+  const nonPdf = inputs.find(input => path.extname(input).toLowerCase() !== '.pdf');
+  if (nonPdf) throw new UsageError(`Only PDF files can be narrated here: ${nonPdf}`);
+
+  const options: NarrateOptions = {
+    voice: values.voice!,
+    speed,
+    pages: parsePageRange(values.pages),
+    split: values.split,
+    cleanup: !values['no-cleanup'],
+    readFurniture: values['read-furniture']!
+  };
+  const ai = createGeminiClient(values.endpoint ? { baseUrl: values.endpoint } : {});
+  await mkdir(outDir, { recursive: true });
+
+  for (const input of inputs) {
+    console.log(`Narrating ${input}`);
+    await narrate(input, outDir, options, ai);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : error);
+  process.exitCode = 1;
+});
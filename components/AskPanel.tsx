@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DocumentData, OutlineEntry } from '../types';
+import { answerQuestion, DocumentAnswer, splitCitations, spokenAnswer, summarizeSection } from '../services/documentQA';
+import { BlockRef, buildBlockIndex } from '../utils/searchIndex';
+
+interface AskPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  doc: DocumentData;
+  outline: OutlineEntry[];
+  /** Outline entry being read, or -1. */
+  currentSection: number;
+  /** Move playback to a cited block. */
+  onCite: (ref: BlockRef) => void;
+  /** Read text aloud with the current engine and voice. */
+  onSpeak: (text: string) => Promise<void>;
+}
+
+interface Exchange {
+  prompt: string;
+  answer?: DocumentAnswer;
+  error?: string;
+}
+
+const AskPanel: React.FC<AskPanelProps> = ({ isOpen, onClose, doc, outline, currentSection, onCite, onSpeak }) => {
+  const [exchanges, setExchanges] = useState<Exchange[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [speaking, setSpeaking] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Rebuilt as pages are analyzed, so newly cleaned pages become searchable.
+  const index = useMemo(() => buildBlockIndex(doc.pages), [doc.pages]);
+
+  useEffect(() => {
+    setExchanges([]);
+    return () => abortRef.current?.abort();
+  }, [doc.id]);
+
+  if (!isOpen) return null;
+
+  const run = async (prompt: string, request: (signal: AbortSignal) => Promise<DocumentAnswer>) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsAsking(true);
+    setExchanges(prev => [...prev, { prompt }]);
+    const settle = (result: Partial<Exchange>) =>
+      setExchanges(prev => prev.map((e, i) => i === prev.length - 1 ? { ...e, ...result } : e));
+    try {
+      settle({ answer: await request(controller.signal) });
+    } catch (err: any) {
+      if (err.name !== 'AbortError') settle({ error: err.message || 'Could not get an answer.' });
+    } finally {
+      if (abortRef.current === controller) setIsAsking(false);
+    }
+  };
+
+  const ask = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || isAsking) return;
+    setQuestion('');
+    run(text, signal => answerQuestion(doc, index, text, signal));
+  };
+
+  const summarize = () => {
+    if (currentSection < 0 || isAsking) return;
+    run(`Summarize "${outline[currentSection].title}"`, signal => summarizeSection(doc, outline, currentSection, signal));
+  };
+
+  const speak = async (i: number, answer: DocumentAnswer) => {
+    setSpeaking(i);
+    try {
+      await onSpeak(spokenAnswer(answer));
+    } catch (err) {
+      console.error('Could not read the answer aloud', err);
+    } finally {
+      setSpeaking(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-lg h-full bg-[#1A1D24] border-l border-white/10 p-8 flex flex-col gap-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black tracking-tight">Ask the Document</h2>
+          <button onClick={onClose} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">CLOSE</button>
+        </div>
+
+        {currentSection >= 0 && (
+          <button
+            onClick={summarize}
+            disabled={isAsking}
+            className="text-left text-xs font-bold text-indigo-400 hover:text-indigo-300 transition-colors disabled:opacity-40 truncate"
+          >
+            Summarize “{outline[currentSection].title}”
+          </button>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-6">
+          {exchanges.length === 0 && (
+            <p className="text-sm text-gray-500">
+              Ask about anything in {doc.name}. Answers cite the passages they come from; click a citation to read from there.
+            </p>
+          )}
+          {exchanges.map((exchange, i) => (
+            <div key={i} className="space-y-2">
+              <p className="text-sm font-bold text-white">{exchange.prompt}</p>
+              {exchange.error ? (
+                <p className="text-sm text-red-400">{exchange.error}</p>
+              ) : !exchange.answer ? (
+                <p className="text-sm text-gray-500 animate-pulse">Thinking...</p>
+              ) : (
+                <>
+                  <p className="text-sm leading-relaxed text-gray-300">
+                    {splitCitations(exchange.answer).map((part, j) => part.source ? (
+                      <button
+                        key={j}
+                        onClick={() => onCite(part.source!)}
+                        title={`Page ${part.source.page + 1}, block ${part.source.block + 1}`}
+                        className="mx-0.5 px-1.5 rounded-md bg-indigo-500/15 text-[10px] font-black text-indigo-300 hover:bg-indigo-500/30 transition-colors align-middle"
+                      >
+                        p.{part.source.page + 1}
+                      </button>
+                    ) : (
+                      <React.Fragment key={j}>{part.text}</React.Fragment>
+                    ))}
+                  </p>
+                  <button
+                    onClick={() => speak(i, exchange.answer!)}
+                    disabled={speaking !== null}
+                    className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors disabled:opacity-40"
+                  >
+                    {speaking === i ? 'Reading...' : 'Read aloud'}
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={ask} className="flex gap-2">
+          <input
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Ask a question..."
+            className="flex-1 bg-white/5 rounded-2xl px-4 py-3 text-sm outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={isAsking || !question.trim()}
+            className="px-5 rounded-2xl bg-indigo-600 text-xs font-black uppercase tracking-widest hover:bg-indigo-500 transition-colors disabled:opacity-40"
+          >
+            Ask
+          </button>
+        </form>
+      </aside>
+    </div>
+  );
+};
+
+export default AskPanel;
@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DocumentData } from '../types';
+import { diffWords } from '../utils/textDiff';
+
+interface CleanupDiffProps {
+  isOpen: boolean;
+  onClose: () => void;
+  doc: DocumentData;
+  /** Page shown when the panel opens. */
+  currentPage: number;
+  aiCleanup: boolean;
+  onToggleAiCleanup: (value: boolean) => void;
+}
+
+const STATUS_LABELS = {
+  ai: 'Cleaned by AI',
+  layout: 'AI response rejected, layout blocks kept',
+  none: 'Not cleaned'
+};
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const CleanupDiff: React.FC<CleanupDiffProps> = ({ isOpen, onClose, doc, currentPage, aiCleanup, onToggleAiCleanup }) => {
+  const [pageIndex, setPageIndex] = useState(currentPage);
+
+  useEffect(() => {
+    if (isOpen) setPageIndex(currentPage);
+  }, [isOpen, currentPage]);
+
+  const page = doc.pages[pageIndex];
+  const cleanedText = page ? page.blocks.filter(b => !b.furniture).map(b => b.content).join('\n\n') : '';
+
+  const segments = useMemo(
+    () => (isOpen && page ? diffWords(page.rawText, cleanedText) : []),
+    [isOpen, page, cleanedText]
+  );
+
+  if (!isOpen || !page) return null;
+
+  const removed = segments.filter(s => s.kind === 'removed').reduce((acc, s) => acc + countWords(s.text), 0);
+  const added = segments.filter(s => s.kind === 'added').reduce((acc, s) => acc + countWords(s.text), 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-2xl h-full bg-[#1A1D24] border-l border-white/10 p-8 overflow-y-auto space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black tracking-tight">Cleanup Changes</h2>
+          <button onClick={onClose} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">CLOSE</button>
+        </div>
+
+        <label className="flex items-center justify-between text-sm font-bold cursor-pointer">
+          <span>Clean PDF &amp; scanned pages with AI</span>
+          <input
+            type="checkbox"
+            checked={aiCleanup}
+            onChange={(e) => onToggleAiCleanup(e.target.checked)}
+            className="w-4 h-4 accent-indigo-500"
+          />
+        </label>
+
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => setPageIndex(i => i - 1)}
+            disabled={pageIndex === 0}
+            className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors disabled:opacity-40"
+          >
+            Prev
+          </button>
+          <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Page {page.pageNumber}</span>
+          <button
+            onClick={() => setPageIndex(i => i + 1)}
+            disabled={pageIndex >= doc.pages.length - 1}
+            className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors disabled:opacity-40"
+          >
+            Next
+          </button>
+          <span className="ml-auto text-[10px] font-black text-gray-500 uppercase tracking-widest">{STATUS_LABELS[page.cleanup || 'none']}</span>
+        </div>
+
+        {!page.rawText.trim() ? (
+          <p className="text-sm text-gray-500">This page has no extracted text to compare.</p>
+        ) : (
+          <>
+            <div className="flex gap-6 text-xs font-bold">
+              <span className="text-red-400">{removed} words dropped</span>
+              <span className="text-emerald-400">{added} words added</span>
+            </div>
+            <p className="text-sm leading-relaxed text-gray-300">
+              {segments.map((segment, i) => (
+                <React.Fragment key={i}>
+                  {segment.kind === 'same' && <span>{segment.text}</span>}
+                  {segment.kind === 'removed' && <del className="bg-red-500/20 text-red-300">{segment.text}</del>}
+                  {segment.kind === 'added' && <ins className="no-underline bg-emerald-500/20 text-emerald-300">{segment.text}</ins>}
+                  {i < segments.length - 1 && ' '}
+                </React.Fragment>
+              ))}
+            </p>
+          </>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default CleanupDiff;
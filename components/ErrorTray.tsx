@@ -0,0 +1,54 @@
+import React from 'react';
+
+export interface TrayError {
+  id: number;
+  title: string;
+  message: string;
+  /** Offered when the failed step can be tried again. */
+  onRetry?: () => void;
+  /** Offered when playback is waiting on this failure and can move past it. */
+  onSkip?: () => void;
+}
+
+interface ErrorTrayProps {
+  errors: TrayError[];
+  onDismiss: (id: number) => void;
+}
+
+const ErrorTray: React.FC<ErrorTrayProps> = ({ errors, onDismiss }) => {
+  if (errors.length === 0) return null;
+
+  return (
+    <div className="fixed top-24 right-6 z-[70] w-full max-w-sm space-y-3" role="status" aria-live="polite">
+      {errors.map(error => (
+        <div key={error.id} className="bg-[#1A1D24]/95 backdrop-blur-xl border border-red-500/30 rounded-2xl p-4 shadow-2xl space-y-2">
+          <div className="flex items-start justify-between gap-3">
+            <p className="text-sm font-bold text-red-300">{error.title}</p>
+            {!error.onSkip && (
+              <button
+                onClick={() => onDismiss(error.id)}
+                aria-label="Dismiss"
+                className="text-gray-500 hover:text-white transition-colors leading-none"
+              >
+                ×
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-400 break-words">{error.message}</p>
+          {(error.onRetry || error.onSkip) && (
+            <div className="flex gap-4 pt-1">
+              {error.onRetry && (
+                <button onClick={error.onRetry} className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-white transition-colors">Retry</button>
+              )}
+              {error.onSkip && (
+                <button onClick={error.onSkip} className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors">Skip</button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ErrorTray;
@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DocumentData, PageContent, SpeechEngine } from '../types';
+import { countResumableParts, exportAudiobook, ExportProgress } from '../services/audiobookExport';
+import { SpeechNormalization } from '../utils/textNormalizer';
+
+interface ExportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  doc: DocumentData;
+  engine: SpeechEngine;
+  voice: string;
+  speed: number;
+  includeFurniture: boolean;
+  normalization: SpeechNormalization;
+  prepareBlocks: (page: PageContent, pageIndex: number) => Promise<void>;
+}
+
+interface ExportDownloads {
+  wavUrl: string;
+  cueUrl: string;
+  fileName: string;
+  cueFileName: string;
+  chapters: number;
+}
+
+const PHASE_LABELS: Record<ExportProgress['phase'], string> = {
+  analyzing: 'Analyzing pages',
+  synthesizing: 'Synthesizing audio',
+  encoding: 'Writing WAV'
+};
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ isOpen, onClose, doc, engine, voice, speed, includeFurniture, normalization, prepareBlocks }) => {
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState("");
+  const [resumable, setResumable] = useState(0);
+  const [downloads, setDownloads] = useState<ExportDownloads | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || engine.kind !== 'pcm') return;
+    countResumableParts(doc, engine, voice, includeFurniture, normalization).then(setResumable).catch(() => setResumable(0));
+  }, [isOpen, doc, engine, voice, includeFurniture, normalization, isRunning]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => () => {
+    if (downloads) {
+      URL.revokeObjectURL(downloads.wavUrl);
+      URL.revokeObjectURL(downloads.cueUrl);
+    }
+  }, [downloads]);
+
+  if (!isOpen) return null;
+
+  const start = async () => {
+    if (engine.kind !== 'pcm') return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setError("");
+    setDownloads(null);
+
+    try {
+      const result = await exportAudiobook(doc, {
+        engine, voice, speed, includeFurniture, normalization, prepareBlocks,
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      setDownloads({
+        wavUrl: URL.createObjectURL(result.wav),
+        cueUrl: URL.createObjectURL(new Blob([result.cueSheet], { type: 'application/x-cue' })),
+        fileName: result.fileName,
+        cueFileName: result.fileName.replace(/\.wav$/, '.cue'),
+        chapters: result.chapters.length
+      });
+      setProgress(null);
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') setError(err?.message || 'Export failed');
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const pause = () => controllerRef.current?.abort();
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-6" onClick={isRunning ? undefined : onClose}>
+      <div
+        className="w-full max-w-lg bg-[#1A1D24] border border-white/10 rounded-[2.5rem] p-8 space-y-6 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black tracking-tight">Export Audiobook</h2>
+          {!isRunning && (
+            <button onClick={onClose} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">CLOSE</button>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-400">
+          {doc.name} · voice <span className="text-white font-bold">{voice}</span> · <span className="text-white font-bold">{speed}x</span>
+        </p>
+
+        {engine.kind !== 'pcm' ? (
+          <p className="text-sm font-bold text-amber-400">The {engine.label} engine plays through the browser and cannot be recorded. Switch to an engine that returns audio to export.</p>
+        ) : (
+          <>
+            {progress && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+                  <span className="text-gray-500">{PHASE_LABELS[progress.phase]}</span>
+                  <span className="text-indigo-400">{progress.done} / {progress.total}</span>
+                </div>
+                <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm font-bold text-red-400">{error}</p>}
+
+            {downloads ? (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-400">{downloads.chapters} chapter markers embedded.</p>
+                <div className="flex gap-3">
+                  <a href={downloads.wavUrl} download={downloads.fileName} className="flex-1 py-3 rounded-2xl bg-indigo-600 text-center text-xs font-black uppercase tracking-widest hover:bg-indigo-500 transition-all">Download WAV</a>
+                  <a href={downloads.cueUrl} download={downloads.cueFileName} className="py-3 px-5 rounded-2xl bg-white/5 text-center text-xs font-black uppercase tracking-widest text-gray-300 hover:bg-white/10 transition-all">Cue Sheet</a>
+                </div>
+              </div>
+            ) : isRunning ? (
+              <button onClick={pause} className="w-full py-3 rounded-2xl bg-white/5 text-xs font-black uppercase tracking-widest text-gray-300 hover:bg-white/10 transition-all">Pause</button>
+            ) : (
+              <button onClick={start} className="w-full py-3 rounded-2xl bg-indigo-600 text-xs font-black uppercase tracking-widest hover:bg-indigo-500 transition-all">
+                {resumable > 0 ? `Resume (${resumable} parts done)` : 'Start Export'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
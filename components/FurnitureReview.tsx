@@ -0,0 +1,73 @@
+import React from 'react';
+import { DocumentData, FurnitureKind } from '../types';
+
+interface FurnitureReviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  doc: DocumentData;
+  readFurniture: boolean;
+  onToggleReadFurniture: (value: boolean) => void;
+  onRestore: (pageIndex: number, blockIndex: number) => void;
+}
+
+const KIND_LABELS: Record<FurnitureKind, string> = {
+  header: 'Header',
+  footer: 'Footer',
+  'page-number': 'Page No.'
+};
+
+const FurnitureReview: React.FC<FurnitureReviewProps> = ({ isOpen, onClose, doc, readFurniture, onToggleReadFurniture, onRestore }) => {
+  if (!isOpen) return null;
+
+  const removed = doc.pages.flatMap((page, pageIndex) =>
+    page.blocks
+      .map((block, blockIndex) => ({ block, blockIndex, pageIndex, pageNumber: page.pageNumber }))
+      .filter(entry => entry.block.furniture)
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-[#1A1D24] border-l border-white/10 p-8 overflow-y-auto space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black tracking-tight">Removed Page Furniture</h2>
+          <button onClick={onClose} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">CLOSE</button>
+        </div>
+
+        <label className="flex items-center justify-between text-sm font-bold cursor-pointer">
+          <span>Read headers, footers &amp; page numbers</span>
+          <input
+            type="checkbox"
+            checked={readFurniture}
+            onChange={(e) => onToggleReadFurniture(e.target.checked)}
+            className="w-4 h-4 accent-indigo-500"
+          />
+        </label>
+
+        {removed.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing was removed from this document.</p>
+        ) : (
+          <ul className="space-y-2">
+            {removed.map(({ block, blockIndex, pageIndex, pageNumber }) => (
+              <li key={`${pageIndex}:${blockIndex}`} className="flex items-center gap-3 bg-white/5 rounded-2xl px-4 py-3">
+                <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest w-12 shrink-0">P{pageNumber}</span>
+                <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest w-16 shrink-0">{KIND_LABELS[block.furniture!]}</span>
+                <span className="flex-1 text-sm text-gray-300 truncate" title={block.content}>{block.content}</span>
+                <button
+                  onClick={() => onRestore(pageIndex, blockIndex)}
+                  className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors"
+                >
+                  Keep
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default FurnitureReview;
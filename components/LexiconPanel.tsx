@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { compileLexiconEntry, LexiconEntry, NormalizationRules } from '../utils/textNormalizer';
+import { createLexiconEntry, exportLexicon, importLexicon } from '../services/lexiconService';
+import { mathToSpeech, MathVerbosity } from '../utils/mathSpeech';
+
+interface LexiconPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: LexiconEntry[];
+  onChange: (entries: LexiconEntry[]) => void;
+  rules: NormalizationRules;
+  onRulesChange: (rules: NormalizationRules) => void;
+  mathVerbosity: MathVerbosity;
+  onMathVerbosityChange: (verbosity: MathVerbosity) => void;
+  /** Speak a short piece of text with the current engine and voice. */
+  onPreview: (text: string) => Promise<void>;
+}
+
+const RULE_LABELS: Record<keyof NormalizationRules, string> = {
+  abbreviations: 'Abbreviations (e.g., Dr., Fig.)',
+  dates: 'ISO dates',
+  units: 'Units, currency & percentages',
+  numbers: 'Numbers, ordinals & years'
+};
+
+const VERBOSITY_LABELS: Record<MathVerbosity, string> = {
+  brief: 'Brief',
+  standard: 'Standard',
+  verbose: 'Verbose'
+};
+
+const SAMPLE_FORMULA = '\\frac{a+b}{c}';
+
+const LexiconPanel: React.FC<LexiconPanelProps> = ({ isOpen, onClose, entries, onChange, rules, onRulesChange, mathVerbosity, onMathVerbosityChange, onPreview }) => {
+  const [error, setError] = useState("");
+  const [previewing, setPreviewing] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const update = (id: string, patch: Partial<LexiconEntry>) => {
+    onChange(entries.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
+
+  const preview = async (entry: LexiconEntry) => {
+    setPreviewing(entry.id);
+    setError("");
+    try {
+      await onPreview(entry.replacement || entry.match);
+    } catch (err: any) {
+      setError(err?.message || 'Preview failed');
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(await importLexicon(file, entries));
+      setError("");
+    } catch (err: any) {
+      setError(err?.message || 'Import failed');
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(exportLexicon(entries));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'omnivoice-lexicon.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-xl h-full bg-[#1A1D24] border-l border-white/10 p-8 overflow-y-auto space-y-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black tracking-tight">Pronunciation</h2>
+          <button onClick={onClose} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">CLOSE</button>
+        </div>
+
+        <section className="space-y-3">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Expand Before Speaking</h3>
+          {(Object.keys(RULE_LABELS) as (keyof NormalizationRules)[]).map(rule => (
+            <label key={rule} className="flex items-center justify-between text-sm font-bold cursor-pointer">
+              <span>{RULE_LABELS[rule]}</span>
+              <input
+                type="checkbox"
+                checked={rules[rule]}
+                onChange={(e) => onRulesChange({ ...rules, [rule]: e.target.checked })}
+                className="w-4 h-4 accent-indigo-500"
+              />
+            </label>
+          ))}
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Math</h3>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(VERBOSITY_LABELS) as MathVerbosity[]).map(verbosity => (
+              <button
+                key={verbosity}
+                onClick={() => onMathVerbosityChange(verbosity)}
+                className={`py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${mathVerbosity === verbosity ? 'bg-indigo-600 text-white' : 'bg-white/5 text-gray-400 hover:bg-white/10'}`}
+              >
+                {VERBOSITY_LABELS[verbosity]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            <span className="font-mono">{SAMPLE_FORMULA}</span> is read “{mathToSpeech(SAMPLE_FORMULA, mathVerbosity)}”.
+          </p>
+        </section>
+
+        <section className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Lexicon</h3>
+            <div className="flex items-center gap-4">
+              <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors cursor-pointer">
+                Import
+                <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+              </label>
+              <button onClick={handleExport} disabled={entries.length === 0} className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors disabled:opacity-40">Export</button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm font-bold text-red-400">{error}</p>}
+
+          {entries.length === 0 && (
+            <p className="text-sm text-gray-500">Add words the voice gets wrong, with how they should be said.</p>
+          )}
+
+          <ul className="space-y-3">
+            {entries.map(entry => {
+              const invalid = entry.match !== '' && compileLexiconEntry(entry) === null;
+              return (
+                <li key={entry.id} className="bg-white/5 rounded-2xl p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={entry.match}
+                      onChange={(e) => update(entry.id, { match: e.target.value })}
+                      placeholder={entry.regex ? 'Pattern' : 'Word'}
+                      className={`flex-1 min-w-0 bg-black/20 rounded-xl px-3 py-2 text-sm outline-none ${entry.regex ? 'font-mono' : ''} ${invalid ? 'ring-1 ring-red-500' : ''}`}
+                    />
+                    <span className="text-gray-600">→</span>
+                    <input
+                      value={entry.replacement}
+                      onChange={(e) => update(entry.id, { replacement: e.target.value })}
+                      placeholder="Spoken as"
+                      className="flex-1 min-w-0 bg-black/20 rounded-xl px-3 py-2 text-sm outline-none"
+                    />
+                  </div>
+                  <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest text-gray-500">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={entry.regex} onChange={(e) => update(entry.id, { regex: e.target.checked })} className="accent-indigo-500" />
+                      Regex
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={entry.caseSensitive} onChange={(e) => update(entry.id, { caseSensitive: e.target.checked })} className="accent-indigo-500" />
+                      Match case
+                    </label>
+                    {invalid && <span className="text-red-400 normal-case tracking-normal">Invalid pattern</span>}
+                    <button
+                      onClick={() => preview(entry)}
+                      disabled={previewing !== null || !(entry.replacement || entry.match)}
+                      className="ml-auto text-indigo-400 hover:text-white transition-colors disabled:opacity-40"
+                    >
+                      {previewing === entry.id ? 'Playing…' : 'Preview'}
+                    </button>
+                    <button onClick={() => onChange(entries.filter(e => e.id !== entry.id))} className="hover:text-red-400 transition-colors">Remove</button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          <button
+            onClick={() => onChange([...entries, createLexiconEntry()])}
+            className="w-full py-3 rounded-2xl bg-white/5 text-xs font-black uppercase tracking-widest text-gray-300 hover:bg-white/10 transition-all"
+          >
+            Add Entry
+          </button>
+        </section>
+      </aside>
+    </div>
+  );
+};
+
+export default LexiconPanel;
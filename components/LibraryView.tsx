@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { deleteDocument, LibraryEntry, listLibrary } from '../services/libraryService';
+import { formatBytes } from '../utils/format';
+
+interface LibraryViewProps {
+  onOpen: (id: string) => void;
+  disabled?: boolean;
+}
+
+const LibraryView: React.FC<LibraryViewProps> = ({ onOpen, disabled }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [quota, setQuota] = useState<{ usage: number; quota: number } | null>(null);
+
+  const refresh = () => {
+    listLibrary().then(setEntries).catch(e => console.warn('Could not read library', e));
+    navigator.storage?.estimate?.()
+      .then(({ usage = 0, quota = 0 }) => setQuota({ usage, quota }))
+      .catch(() => setQuota(null));
+  };
+
+  useEffect(refresh, []);
+
+  const handleDelete = async (id: string) => {
+    await deleteDocument(id);
+    refresh();
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <section className="text-left space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Library</h3>
+        {quota && quota.quota > 0 && (
+          <span className="text-[10px] font-bold text-gray-600 uppercase tracking-widest">
+            {formatBytes(quota.usage)} of {formatBytes(quota.quota)} used
+          </span>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {entries.map(entry => (
+          <li key={entry.id} className="flex items-center gap-4 bg-[#1A1D24] border border-white/5 rounded-2xl px-5 py-4">
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm font-bold truncate" title={entry.name}>{entry.name}</p>
+                <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest shrink-0">
+                  Page {entry.position.page + 1} / {entry.pageCount} · {formatBytes(entry.storedBytes)}
+                </span>
+              </div>
+              <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${Math.round(entry.progress * 100)}%` }}></div>
+              </div>
+            </div>
+            <button
+              onClick={() => onOpen(entry.id)}
+              disabled={disabled}
+              className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-white transition-colors disabled:opacity-40"
+            >
+              Resume
+            </button>
+            <button
+              onClick={() => handleDelete(entry.id)}
+              disabled={disabled}
+              className="text-[10px] font-black text-gray-600 uppercase tracking-widest hover:text-red-400 transition-colors disabled:opacity-40"
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default LibraryView;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { OutlineEntry } from '../types';
+
+interface OutlinePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  outline: OutlineEntry[];
+  /** Whether the entries come from the file itself or from detected headings. */
+  embedded: boolean;
+  currentIndex: number;
+  onSelect: (entry: OutlineEntry) => void;
+}
+
+const OutlinePanel: React.FC<OutlinePanelProps> = ({ isOpen, onClose, outline, embedded, currentIndex, onSelect }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-start bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-sm h-full bg-[#1A1D24] border-r border-white/10 p-8 overflow-y-auto space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black tracking-tight">Contents</h2>
+          <button onClick={onClose} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">CLOSE</button>
+        </div>
+
+        {outline.length === 0 ? (
+          <p className="text-sm text-gray-500">No outline or headings were found in this document.</p>
+        ) : (
+          <>
+            {!embedded && (
+              <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Built from detected headings</p>
+            )}
+            <ul className="space-y-1">
+              {outline.map((entry, i) => (
+                <li key={`${entry.page}:${entry.block}:${i}`}>
+                  <button
+                    onClick={() => onSelect(entry)}
+                    style={{ paddingLeft: `${1 + entry.level}rem` }}
+                    className={`w-full flex items-baseline gap-3 text-left rounded-xl pr-4 py-2 transition-colors ${i === currentIndex ? 'bg-indigo-600/20 text-white' : 'text-gray-400 hover:bg-white/5 hover:text-white'}`}
+                  >
+                    <span className="flex-1 text-sm font-bold truncate" title={entry.title}>{entry.title}</span>
+                    <span className="text-[10px] font-black text-gray-600 shrink-0">{entry.page + 1}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default OutlinePanel;
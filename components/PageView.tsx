@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { BoundingBox, PageContent } from '../types';
+import { renderPageToCanvas } from '../services/pdfService';
+
+interface PageViewProps {
+  /** The original PDF or image file. */
+  source: Blob;
+  sourceType: 'pdf' | 'image';
+  page: PageContent;
+  pageIndex: number;
+  /** Block being read on this page, or null. */
+  activeBlock: number | null;
+  /** Start reading from a block. */
+  onSelectBlock: (block: number) => void;
+}
+
+// Sharp on high-density screens at the panel's width without rendering huge bitmaps.
+const RENDER_SCALE = 2.0;
+
+const PageView: React.FC<PageViewProps> = ({ source, sourceType, page, pageIndex, activeBlock, onSelectBlock }) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setError('');
+    if (sourceType === 'image') {
+      const url = URL.createObjectURL(source);
+      setImageUrl(url);
+      return () => URL.revokeObjectURL(url);
+    }
+    setImageUrl(null);
+    renderPageToCanvas(source, pageIndex + 1, RENDER_SCALE)
+      .then(url => { if (!cancelled) setImageUrl(url); })
+      .catch(err => {
+        console.error('Page render failed', err);
+        if (!cancelled) setError('This page could not be rendered.');
+      });
+    return () => { cancelled = true; };
+  }, [source, sourceType, pageIndex]);
+
+  // Boxes are in page units; percentages keep them on the image at any display size.
+  const place = (box: BoundingBox): React.CSSProperties => ({
+    left: `${(box.x / page.width!) * 100}%`,
+    top: `${(box.y / page.height!) * 100}%`,
+    width: `${(box.w / page.width!) * 100}%`,
+    height: `${(box.h / page.height!) * 100}%`
+  });
+
+  const hasLayout = !!page.width && !!page.height;
+  const active = activeBlock !== null ? page.blocks[activeBlock]?.box : undefined;
+
+  if (error) return <p className="text-sm text-gray-500">{error}</p>;
+  if (!imageUrl) return <div className="aspect-[3/4] rounded-2xl bg-white/5 animate-pulse" />;
+
+  return (
+    <div className="relative rounded-2xl overflow-hidden shadow-2xl bg-white">
+      <img src={imageUrl} alt={`Page ${page.pageNumber}`} className="block w-full h-auto select-none" draggable={false} />
+      {hasLayout && (
+        <>
+          {active && (
+            <div
+              className="absolute rounded-md bg-indigo-500/25 ring-2 ring-indigo-500 transition-all duration-300 ease-out pointer-events-none"
+              style={place(active)}
+            />
+          )}
+          {page.blocks.map((block, i) => block.box && !block.furniture && (
+            <button
+              key={i}
+              onClick={() => onSelectBlock(i)}
+              title="Read from here"
+              className="absolute rounded-md transition-colors hover:bg-indigo-500/15 hover:ring-1 hover:ring-indigo-400"
+              style={place(block.box)}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PageView;
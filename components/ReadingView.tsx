@@ -0,0 +1,75 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { BlockType } from '../types';
+import { tokenizeWords } from '../utils/wordTimings';
+
+interface ReadingViewProps {
+  text: string;
+  type?: BlockType;
+  /** Index of the word being spoken, or -1 when nothing in this text is. */
+  activeWord: number;
+  onWordClick?: (wordIndex: number) => void;
+}
+
+const TYPE_STYLES: Record<BlockType, string> = {
+  paragraph: '',
+  heading: 'text-4xl md:text-6xl font-black tracking-tight text-white',
+  list: 'text-2xl md:text-4xl',
+  table: 'text-xl md:text-2xl font-mono',
+  sidebar: 'text-2xl md:text-3xl italic text-gray-300 border-l-4 border-indigo-500/40 pl-6',
+  math: 'text-2xl md:text-4xl font-mono text-indigo-200',
+  'chart-desc': 'text-xl md:text-3xl italic text-gray-400'
+};
+
+const TYPE_LABELS: Record<BlockType, string> = {
+  paragraph: 'Paragraph',
+  heading: 'Heading',
+  list: 'List',
+  table: 'Table',
+  sidebar: 'Sidebar',
+  math: 'Math',
+  'chart-desc': 'Caption'
+};
+
+const LIST_MARKER = /^(?:[•◦▪▫‣⁃●○■□►▸–—*-]|\(?\d{1,3}[.)]|\(?[a-zA-Z][.)])$/;
+
+const ReadingView: React.FC<ReadingViewProps> = ({ text, type = 'paragraph', activeWord, onWordClick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLSpanElement>(null);
+  // Tokenize the whitespace-normalized text so indices line up with the synthesis chunks.
+  const words = useMemo(() => tokenizeWords(text.replace(/\s+/g, ' ').trim()), [text]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const word = activeRef.current;
+    if (!container || !word) return;
+
+    const wordTop = word.offsetTop - container.offsetTop;
+    const visibleTop = container.scrollTop;
+    const visibleBottom = visibleTop + container.clientHeight;
+    if (wordTop < visibleTop + 40 || wordTop > visibleBottom - 80) {
+      container.scrollTo({ top: wordTop - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeWord, text]);
+
+  return (
+    <div ref={containerRef} className={`relative max-h-[50vh] overflow-y-auto hide-scrollbar ${TYPE_STYLES[type]}`}>
+      {type !== 'paragraph' && (
+        <span className="block mb-4 not-italic font-sans text-[10px] font-black tracking-widest uppercase text-indigo-400">{TYPE_LABELS[type]}</span>
+      )}
+      {words.map((w, i) => (
+        <React.Fragment key={i}>
+          {type === 'list' && i > 0 && LIST_MARKER.test(w.text) && <br />}
+          <span
+            ref={i === activeWord ? activeRef : undefined}
+            onClick={onWordClick ? () => onWordClick(i) : undefined}
+            className={`rounded-lg transition-colors duration-150 ${onWordClick ? 'cursor-pointer hover:text-white' : ''} ${i === activeWord ? 'bg-indigo-600 text-white' : i < activeWord ? 'text-gray-500' : ''}`}
+          >
+            {w.text}
+          </span>{' '}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default ReadingView;
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { CacheUsage, clearCache, getCacheUsage, setCacheLimitMb } from '../services/cacheService';
+import { formatBytes } from '../utils/format';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CACHE_LIMIT_OPTIONS_MB = [50, 100, 200, 500, 1000];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
+  const [usage, setUsage] = useState<CacheUsage | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const refresh = () => {
+    getCacheUsage().then(setUsage).catch(e => console.warn('Could not read cache usage', e));
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      await clearCache();
+    } finally {
+      setIsClearing(false);
+      refresh();
+    }
+  };
+
+  const handleLimitChange = async (mb: number) => {
+    await setCacheLimitMb(mb);
+    refresh();
+  };
+
+  const limitMb = usage ? Math.round(usage.limitBytes / (1024 * 1024)) : 200;
+  const audioShare = usage ? Math.min(100, (usage.audio.bytes / usage.limitBytes) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-[#1A1D24] border-l border-white/10 p-8 overflow-y-auto space-y-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black tracking-tight">Settings</h2>
+          <button onClick={onClose} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">CLOSE</button>
+        </div>
+
+        <section className="space-y-4">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Offline Cache</h3>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm font-bold">
+              <span>Synthesized audio</span>
+              <span className="text-indigo-400">{usage ? `${formatBytes(usage.audio.bytes)} / ${formatBytes(usage.limitBytes)}` : '…'}</span>
+            </div>
+            <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${audioShare}%` }}></div>
+            </div>
+            <p className="text-xs text-gray-500">{usage ? `${usage.audio.entries} clips` : ''}</p>
+          </div>
+
+          <div className="flex items-center justify-between text-sm font-bold">
+            <span>Cleaned pages</span>
+            <span className="text-gray-400">{usage ? `${usage.layout.entries} pages · ${formatBytes(usage.layout.bytes)}` : '…'}</span>
+          </div>
+
+          {usage?.quota && (
+            <div className="flex items-center justify-between text-sm font-bold">
+              <span>Browser storage</span>
+              <span className="text-gray-400">{formatBytes(usage.quota.usage)} of {formatBytes(usage.quota.quota)}</span>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between text-sm font-bold">
+            <span>Audio cache limit</span>
+            <select
+              value={limitMb}
+              onChange={(e) => handleLimitChange(parseInt(e.target.value, 10))}
+              className="bg-white/5 rounded-xl px-3 py-2 text-xs font-black text-gray-300 outline-none cursor-pointer"
+            >
+              {CACHE_LIMIT_OPTIONS_MB.map(mb => (
+                <option key={mb} value={mb} className="bg-[#1A1D24]">{mb >= 1000 ? `${mb / 1000} GB` : `${mb} MB`}</option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={handleClear}
+            disabled={isClearing}
+            className="w-full py-3 rounded-2xl bg-white/5 text-xs font-black uppercase tracking-widest text-red-400 hover:bg-red-500/10 transition-all disabled:opacity-50"
+          >
+            {isClearing ? 'Clearing…' : 'Clear Cache'}
+          </button>
+        </section>
+      </aside>
+    </div>
+  );
+};
+
+export default SettingsPanel;
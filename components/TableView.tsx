@@ -0,0 +1,121 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TableGrid } from '../types';
+import { tokenizeWords } from '../utils/wordTimings';
+import { describeCell, rowText } from '../utils/tableSpeech';
+
+interface TableViewProps {
+  table: TableGrid;
+  /** Index of the word being spoken over the block's content, or -1 when nothing in it is. */
+  activeWord: number;
+  /** Read on from the first word of a row. */
+  onReadFrom: (wordIndex: number) => void;
+  /** Speak a cell the user stepped to. */
+  onAnnounce: (text: string) => void;
+}
+
+interface Cell {
+  row: number;
+  column: number;
+}
+
+/**
+ * A table block as a grid. The row being read is highlighted; with the grid focused, the
+ * arrow keys step between cells and announce each one, Home and End jump to the ends of
+ * the row, and Enter reads on from the selected row.
+ */
+const TableView: React.FC<TableViewProps> = ({ table, activeWord, onReadFrom, onAnnounce }) => {
+  const [cursor, setCursor] = useState<Cell | null>(null);
+  const activeRef = useRef<HTMLTableRowElement>(null);
+  const columns = table.rows[0]?.length || 0;
+
+  // Word index of each row's first word; rows are the content's lines.
+  const rowStarts = useMemo(() => {
+    let offset = 0;
+    return table.rows.map(cells => {
+      const start = offset;
+      offset += tokenizeWords(rowText(cells)).length;
+      return start;
+    });
+  }, [table]);
+
+  let activeRow = -1;
+  if (activeWord >= 0) rowStarts.forEach((start, row) => { if (start <= activeWord) activeRow = row; });
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeRow]);
+
+  useEffect(() => setCursor(null), [table]);
+
+  const moveTo = (row: number, column: number) => {
+    const cell = {
+      row: Math.max(0, Math.min(table.rows.length - 1, row)),
+      column: Math.max(0, Math.min(columns - 1, column))
+    };
+    setCursor(cell);
+    onAnnounce(describeCell(table, cell.row, cell.column));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The first key press lands on the row being read.
+    const at = cursor || { row: Math.max(0, activeRow), column: 0 };
+    const moves: Record<string, () => void> = {
+      ArrowUp: () => moveTo(cursor ? at.row - 1 : at.row, at.column),
+      ArrowDown: () => moveTo(cursor ? at.row + 1 : at.row, at.column),
+      ArrowLeft: () => moveTo(at.row, cursor ? at.column - 1 : at.column),
+      ArrowRight: () => moveTo(at.row, cursor ? at.column + 1 : at.column),
+      Home: () => moveTo(at.row, 0),
+      End: () => moveTo(at.row, columns - 1),
+      Enter: () => onReadFrom(rowStarts[at.row])
+    };
+    if (!moves[e.key]) return;
+    e.preventDefault();
+    moves[e.key]();
+  };
+
+  return (
+    <div className="relative max-h-[50vh] overflow-y-auto hide-scrollbar">
+      <span className="block mb-4 font-sans text-[10px] font-black tracking-widest uppercase text-indigo-400">
+        Table · arrow keys move between cells, Enter reads from the row
+      </span>
+      <table
+        tabIndex={0}
+        role="grid"
+        aria-label={`Table, ${table.rows.length} rows, ${columns} columns`}
+        onKeyDown={handleKeyDown}
+        className="w-full border-collapse text-base md:text-lg font-medium outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50 rounded-xl"
+      >
+        <tbody>
+          {table.rows.map((cells, row) => {
+            const isHeading = table.header && row === 0;
+            return (
+              <tr
+                key={row}
+                ref={row === activeRow ? activeRef : undefined}
+                className={`border-b border-white/5 transition-colors ${row === activeRow ? 'bg-indigo-600/20 text-white' : row < activeRow ? 'text-gray-500' : ''}`}
+              >
+                {cells.map((cell, column) => {
+                  const Tag = isHeading ? 'th' : 'td';
+                  const selected = cursor?.row === row && cursor.column === column;
+                  return (
+                    <Tag
+                      key={column}
+                      onClick={() => moveTo(row, column)}
+                      onDoubleClick={() => onReadFrom(rowStarts[row])}
+                      aria-selected={selected}
+                      className={`px-3 py-2 text-left align-top cursor-pointer ${isHeading ? 'text-[10px] font-black uppercase tracking-widest text-gray-400' : ''} ${selected ? 'outline outline-2 outline-indigo-500 rounded-lg' : ''}`}
+                    >
+                      {cell}
+                    </Tag>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TableView;
@@ -2,55 +2,89 @@ import React, { useEffect, useRef } from 'react';
 
 interface VisualizerProps {
   isPlaying: boolean;
+  /** Playing, but the next chunk is still being synthesized and nothing is audible. */
+  isBuffering: boolean;
+  /** Tap on the output; null when the engine plays outside the Web Audio graph (Web Speech). */
+  analyser: AnalyserNode | null;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ isPlaying }) => {
+const BARS = 24;
+// Speech energy sits below ~5 kHz; spreading the bars over the whole spectrum would leave most of them flat.
+const MAX_FREQUENCY = 5000;
+
+const Visualizer: React.FC<VisualizerProps> = ({ isPlaying, isBuffering, analyser }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  // Initializing with undefined to fix the "Expected 1 arguments, but got 0" error on line 10 (or 11 depending on spacing).
   const animationRef = useRef<number | undefined>(undefined);
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d')!;
-    
-    const bars = 24;
-    const heights = new Array(bars).fill(2);
 
-    const animate = () => {
+    const heights = new Array(BARS).fill(2);
+    const bins = analyser ? new Uint8Array(analyser.frequencyBinCount) : null;
+    const usableBins = analyser
+      ? Math.max(BARS, Math.min(analyser.frequencyBinCount, Math.round(MAX_FREQUENCY / (analyser.context.sampleRate / analyser.fftSize))))
+      : 0;
+
+    const animate = (now: number) => {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      const width = canvas.width / bars;
-      
-      for (let i = 0; i < bars; i++) {
-        if (isPlaying) {
-          // target height oscillates
-          const target = 5 + Math.random() * (canvas.height - 10);
-          heights[i] += (target - heights[i]) * 0.2;
-        } else {
-          heights[i] += (2 - heights[i]) * 0.1;
+      const width = canvas.width / BARS;
+
+      if (analyser && bins && isPlaying && !isBuffering) analyser.getByteFrequencyData(bins);
+
+      for (let i = 0; i < BARS; i++) {
+        let target = 2;
+        let color = '#6366f1'; // indigo-500
+
+        if (isPlaying && isBuffering) {
+          // A grey pulse sweeping across: waiting, not speaking.
+          const sweep = (now / 600) % (BARS + 6) - 3;
+          target = 2 + Math.max(0, 1 - Math.abs(i - sweep) / 3) * 10;
+          color = '#4b5563'; // gray-600
+        } else if (isPlaying && bins) {
+          const from = Math.floor((i * usableBins) / BARS);
+          const to = Math.max(from + 1, Math.floor(((i + 1) * usableBins) / BARS));
+          let peak = 0;
+          for (let b = from; b < to; b++) peak = Math.max(peak, bins[b]);
+          target = 2 + (peak / 255) * (canvas.height - 4);
+        } else if (isPlaying) {
+          // No signal to analyse: a slow, even wave shows speech is under way.
+          target = 4 + (Math.sin(now / 250 + i * 0.5) + 1) * 4;
+          color = '#818cf8'; // indigo-400
         }
 
-        ctx.fillStyle = '#6366f1'; // indigo-500
+        heights[i] += (target - heights[i]) * 0.3;
+
+        ctx.fillStyle = color;
         const h = heights[i];
         const x = i * width + 2;
         const y = (canvas.height - h) / 2;
-        
+
         ctx.beginPath();
         ctx.roundRect(x, y, width - 4, h, 4);
         ctx.fill();
       }
-      
+
       animationRef.current = requestAnimationFrame(animate);
     };
 
-    animate();
+    animationRef.current = requestAnimationFrame(animate);
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [isPlaying]);
+  }, [isPlaying, isBuffering, analyser]);
 
-  return <canvas ref={canvasRef} width={200} height={40} className="w-full h-10" />;
+  return (
+    <canvas
+      ref={canvasRef}
+      width={200}
+      height={40}
+      className="w-full h-10"
+      role="img"
+      aria-label={!isPlaying ? 'Stopped' : isBuffering ? 'Buffering' : 'Speaking'}
+    />
+  );
 };
 
-export default Visualizer;
\ No newline at end of file
+export default Visualizer;
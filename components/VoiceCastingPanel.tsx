@@ -0,0 +1,100 @@
+import React from 'react';
+import { VoiceCasting, VoiceOption, VoiceRole } from '../types';
+import { VOICE_ROLES, voiceForRole } from '../utils/voiceCasting';
+
+interface VoiceCastingPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  engineLabel: string;
+  voices: VoiceOption[];
+  /** The dock's voice, used for every role left on "Default". */
+  defaultVoice: string;
+  casting: VoiceCasting;
+  onChange: (casting: VoiceCasting) => void;
+  /** Whether the engine can voice narration and quotes within one passage. */
+  multiSpeaker: boolean;
+  /** Speak a short piece of text with the given voice. */
+  onPreview: (text: string, voice: string) => void;
+}
+
+const PREVIEW_TEXT: Record<VoiceRole, string> = {
+  body: 'This is how the body text will sound.',
+  heading: 'Chapter One',
+  quote: '"This is how quoted speech will sound."',
+  caption: 'Figure 1 shows the results.'
+};
+
+const VoiceCastingPanel: React.FC<VoiceCastingPanelProps> = ({
+  isOpen, onClose, engineLabel, voices, defaultVoice, casting, onChange, multiSpeaker, onPreview
+}) => {
+  if (!isOpen) return null;
+
+  const defaultLabel = voices.find(v => v.id === defaultVoice)?.label || defaultVoice;
+
+  const assign = (role: VoiceRole, voice: string) => {
+    const next = { ...casting };
+    if (voice) next[role] = voice;
+    else delete next[role];
+    onChange(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-[#1A1D24] border-l border-white/10 p-8 overflow-y-auto space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black tracking-tight">Voices</h2>
+          <button onClick={onClose} className="text-sm font-bold text-gray-500 hover:text-white transition-colors">CLOSE</button>
+        </div>
+
+        <p className="text-sm text-gray-500">
+          Voices for this document with the {engineLabel} engine. Changes apply the next time reading starts.
+        </p>
+
+        <ul className="space-y-3">
+          {VOICE_ROLES.map(({ role, label, description }) => {
+            const assigned = casting[role] || '';
+            return (
+              <li key={role} className="bg-white/5 rounded-2xl px-4 py-3 space-y-2">
+                <div className="flex items-baseline justify-between gap-3">
+                  <span className="text-sm font-bold">{label}</span>
+                  <span className="text-[10px] text-gray-500 truncate">{description}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={assigned}
+                    onChange={(e) => assign(role, e.target.value)}
+                    className="flex-1 min-w-0 bg-white/5 rounded-xl px-3 py-2 text-xs font-bold text-gray-300 outline-none cursor-pointer"
+                  >
+                    <option value="" className="bg-[#1A1D24]">
+                      {role === 'body' || !casting.body ? `Default (${defaultLabel})` : 'Same as body'}
+                    </option>
+                    {voices.map(v => (
+                      <option key={v.id} value={v.id} className="bg-[#1A1D24]">{v.label}{v.lang ? ` (${v.lang})` : ''}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => onPreview(PREVIEW_TEXT[role], voiceForRole(casting, role, defaultVoice))}
+                    className="text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors"
+                  >
+                    Listen
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {!multiSpeaker && casting.quote && (
+          <p className="text-xs text-amber-400">
+            This engine reads one voice per passage, so the quoted-speech voice is only used for passages that are entirely quoted.
+          </p>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default VoiceCastingPanel;
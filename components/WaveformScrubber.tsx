@@ -0,0 +1,87 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+
+/** The chunk currently audible, as scheduled on the AudioContext clock. */
+export interface ScrubberClip {
+  buffer: AudioBuffer;
+  /** AudioContext time at which the clip starts. */
+  startTime: number;
+  playbackRate: number;
+  /** AudioContext start time of each of the clip's words. */
+  wordTimes: number[];
+}
+
+interface WaveformScrubberProps {
+  clip: ScrubberClip | null;
+  context: AudioContext | null;
+  /** Restart playback from the clip's nth word. */
+  onSeek: (wordIndex: number) => void;
+}
+
+const COLUMNS = 120;
+
+function peaksOf(buffer: AudioBuffer): number[] {
+  const data = buffer.getChannelData(0);
+  const step = Math.max(1, Math.floor(data.length / COLUMNS));
+  const peaks: number[] = [];
+  for (let c = 0; c < COLUMNS; c++) {
+    let peak = 0;
+    for (let i = c * step; i < Math.min(data.length, (c + 1) * step); i++) peak = Math.max(peak, Math.abs(data[i]));
+    peaks.push(peak);
+  }
+  const max = Math.max(...peaks) || 1;
+  return peaks.map(p => p / max);
+}
+
+const WaveformScrubber: React.FC<WaveformScrubberProps> = ({ clip, context, onSeek }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const animationRef = useRef<number | undefined>(undefined);
+  const peaks = useMemo(() => (clip ? peaksOf(clip.buffer) : []), [clip]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !clip || !context) return;
+    const ctx = canvas.getContext('2d')!;
+    const duration = clip.buffer.duration / clip.playbackRate;
+
+    const draw = () => {
+      const progress = Math.min(1, Math.max(0, (context.currentTime - clip.startTime) / duration));
+      const width = canvas.width / COLUMNS;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      peaks.forEach((peak, i) => {
+        const h = Math.max(2, peak * canvas.height);
+        ctx.fillStyle = i / COLUMNS < progress ? '#6366f1' : '#374151'; // indigo-500 / gray-700
+        ctx.fillRect(i * width, (canvas.height - h) / 2, Math.max(1, width - 1), h);
+      });
+      animationRef.current = requestAnimationFrame(draw);
+    };
+
+    draw();
+    return () => {
+      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    };
+  }, [clip, context, peaks]);
+
+  if (!clip || !context) return null;
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    const time = clip.startTime + fraction * (clip.buffer.duration / clip.playbackRate);
+    let word = 0;
+    while (word + 1 < clip.wordTimes.length && clip.wordTimes[word + 1] <= time) word++;
+    onSeek(word);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={600}
+      height={32}
+      onClick={handleClick}
+      className="w-full h-8 cursor-pointer"
+      aria-label="Current sentence waveform; click to replay from a word"
+    />
+  );
+};
+
+export default WaveformScrubber;
@@ -1,13 +1,116 @@
-
 import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { createGeminiClient, processRawLayout, generateSpeech, answerFromPassages } from './server/gemini.js';
+import { requireAccessToken, rateLimit, limitTextField } from './server/middleware.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+const ACCESS_TOKEN = process.env.APP_ACCESS_TOKEN || '';
+const MAX_LAYOUT_CHARS = Number(process.env.MAX_LAYOUT_CHARS) || 100_000;
+const MAX_SPEECH_CHARS = Number(process.env.MAX_SPEECH_CHARS) || 8_000;
+const MAX_QUESTION_CHARS = 2_000;
+const MAX_PASSAGE_CHARS = Number(process.env.MAX_PASSAGE_CHARS) || 60_000;
+const MAX_PASSAGES = 64;
+const VOICE_NAME = /^[A-Za-z]{1,32}$/;
+
+if (!ACCESS_TOKEN) {
+  console.warn('APP_ACCESS_TOKEN is not set: /api routes are open to any client');
+}
+
+// Railway (and most PaaS) terminate TLS in front of us; trust one proxy hop for req.ip.
+app.set('trust proxy', Number(process.env.TRUST_PROXY ?? 1));
+
+const ai = createGeminiClient();
+const api = express.Router();
+
+api.use(express.json({ limit: process.env.MAX_BODY_SIZE || '512kb' }));
+api.use(requireAccessToken(ACCESS_TOKEN));
+
+api.post(
+  '/layout',
+  rateLimit({ windowMs: 60_000, max: Number(process.env.LAYOUT_RATE_LIMIT) || 30 }),
+  limitTextField('rawText', MAX_LAYOUT_CHARS),
+  async (req, res, next) => {
+    try {
+      const blocks = await processRawLayout(ai, req.body.rawText);
+      res.json({ blocks });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+api.post(
+  '/speech',
+  rateLimit({ windowMs: 60_000, max: Number(process.env.SPEECH_RATE_LIMIT) || 120 }),
+  limitTextField('text', MAX_SPEECH_CHARS),
+  async (req, res, next) => {
+    const { text, voice = 'Kore', speakers } = req.body;
+    if (typeof voice !== 'string' || !VOICE_NAME.test(voice)) {
+      return res.status(400).json({ error: '"voice" must be a prebuilt voice name' });
+    }
+    // Gemini's multi-speaker config takes exactly two speakers.
+    if (speakers !== undefined && !(
+      Array.isArray(speakers) && speakers.length === 2 &&
+      speakers.every(s => typeof s?.speaker === 'string' && VOICE_NAME.test(s.speaker) && typeof s.voice === 'string' && VOICE_NAME.test(s.voice))
+    )) {
+      return res.status(400).json({ error: '"speakers" must be two { speaker, voice } pairs of plain names' });
+    }
+    try {
+      const audio = await generateSpeech(ai, text, voice, speakers);
+      res.json({ audio, sampleRate: 24000 });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+api.post(
+  '/ask',
+  rateLimit({ windowMs: 60_000, max: Number(process.env.ASK_RATE_LIMIT) || 20 }),
+  limitTextField('question', MAX_QUESTION_CHARS),
+  async (req, res, next) => {
+    const { question, passages, mode = 'answer' } = req.body;
+    if (mode !== 'answer' && mode !== 'summary') {
+      return res.status(400).json({ error: '"mode" must be "answer" or "summary"' });
+    }
+    if (!Array.isArray(passages) || passages.length === 0 || passages.length > MAX_PASSAGES || !passages.every(p => typeof p === 'string')) {
+      return res.status(400).json({ error: `"passages" must be 1-${MAX_PASSAGES} strings` });
+    }
+    if (passages.reduce((acc, p) => acc + p.length, 0) > MAX_PASSAGE_CHARS) {
+      return res.status(413).json({ error: `"passages" exceed ${MAX_PASSAGE_CHARS} characters` });
+    }
+    try {
+      const answer = await answerFromPassages(ai, question, passages, mode);
+      res.json({ answer });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+api.use((req, res) => {
+  res.status(404).json({ error: 'Not found' });
+});
+
+// Surface upstream quota errors as-is so the client can back off; everything else is a bad gateway.
+api.use((err, req, res, next) => {
+  if (err.type === 'entity.too.large') {
+    return res.status(413).json({ error: 'Request body too large' });
+  }
+  if (err.type === 'entity.parse.failed') {
+    return res.status(400).json({ error: 'Malformed JSON body' });
+  }
+  console.error('Gemini proxy error:', err);
+  const status = err.status === 429 ? 429 : 502;
+  res.status(status).json({ error: status === 429 ? 'Upstream quota exhausted' : 'Upstream request failed' });
+});
+
+app.use('/api', api);
 
 app.use(express.static(path.join(__dirname, 'dist')));
 
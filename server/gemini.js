@@ -0,0 +1,157 @@
+import { GoogleGenAI, Modality, Type } from '@google/genai';
+
+/**
+ * OmniVoice AI Model Strategy:
+ * 1. Intelligence & Layout Analysis (and document Q&A): 'gemini-3-pro-preview'
+ * 2. Voice Synthesis: 'gemini-2.5-flash-preview-tts'
+ *
+ * These calls only ever run on the server so the API key never reaches the browser.
+ */
+export const LAYOUT_MODEL = 'gemini-3-pro-preview';
+export const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+
+/**
+ * Build a Gemini client. `GEMINI_BASE_URL` lets tests point the proxy at a local mock.
+ */
+export function createGeminiClient({
+  apiKey = process.env.GEMINI_API_KEY,
+  baseUrl = process.env.GEMINI_BASE_URL
+} = {}) {
+  if (!apiKey) {
+    console.error('GEMINI_API_KEY is not defined');
+  }
+  return new GoogleGenAI({
+    apiKey,
+    ...(baseUrl ? { httpOptions: { baseUrl } } : {})
+  });
+}
+
+export const BLOCK_TYPES = ['paragraph', 'heading', 'list', 'table', 'sidebar', 'math', 'chart-desc'];
+
+// Ordered typed blocks, mirroring the client's `TextBlock` type and content.
+const LAYOUT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    blocks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: BLOCK_TYPES },
+          content: { type: Type.STRING }
+        },
+        required: ['type', 'content'],
+        propertyOrdering: ['type', 'content']
+      }
+    }
+  },
+  required: ['blocks']
+};
+
+/**
+ * Intelligent Content Interpretation. Resolves to the model's `blocks` array, or null when
+ * the response is not valid JSON; the client validates the blocks themselves.
+ */
+export async function processRawLayout(ai, rawText) {
+  const response = await ai.models.generateContent({
+    model: LAYOUT_MODEL,
+    contents: `You are an expert document reconstruction AI. 
+      Analyze the following raw extracted text from a complex document page. 
+      The text might contain broken words, artifacts from multi-column layouts, 
+      mathematical symbols, or table data.
+      
+      Rules:
+      1. Repair hyphenated words and broken sentences.
+      2. Split the page into blocks in reading order and type each one: paragraph, heading, list, table, sidebar, math or chart-desc.
+      3. Convert table-like structures into descriptive, narrative sentences inside a table block.
+      4. Put mathematical notation in math blocks as LaTeX; it is read aloud by a separate converter.
+      5. Remove headers, footers, and page numbers.
+      6. Keep every sentence of the original; do not summarize or add content.
+
+      Raw Text:
+      ${rawText}`,
+    config: {
+      temperature: 0.1,
+      thinkingConfig: { thinkingBudget: 8000 },
+      responseMimeType: 'application/json',
+      responseSchema: LAYOUT_SCHEMA
+    }
+  });
+
+  try {
+    return JSON.parse(response.text || '').blocks ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Document Q&A. Answers `question` from the numbered `passages` only, citing them as [n];
+ * in 'summary' mode `question` is the title of the section the passages make up.
+ */
+export async function answerFromPassages(ai, question, passages, mode = 'answer') {
+  const numbered = passages.map((text, i) => `[${i + 1}] ${text}`).join('\n\n');
+  const task = mode === 'summary'
+    ? `Summarize the section "${question}" from the passages below in one to three short paragraphs.`
+    : `Answer the question using only the passages below. If they do not contain the answer, say so plainly.\n\nQuestion: ${question}`;
+
+  const response = await ai.models.generateContent({
+    model: LAYOUT_MODEL,
+    contents: `You answer questions about a document the user is listening to.
+      ${task}
+
+      Rules:
+      1. Cite the passage behind every statement with its number in square brackets, like [2] or [1][3].
+      2. Only cite passage numbers that appear below.
+      3. Write plain prose that reads well aloud: no markdown, headings or bullet lists.
+
+      Passages:
+      ${numbered}`,
+    config: {
+      temperature: 0.2,
+      thinkingConfig: { thinkingBudget: 2000 }
+    }
+  });
+
+  const answer = response.text?.trim();
+  if (!answer) throw new Error('No answer generated');
+  return answer;
+}
+
+/**
+ * Advanced TTS. Resolves to base64-encoded 24 kHz 16-bit mono PCM.
+ * With two `speakers` ({ speaker, voice }), `text` is a transcript whose lines start with
+ * a speaker name, and each speaker gets their own voice.
+ */
+export async function generateSpeech(ai, text, voiceName = 'Kore', speakers) {
+  const speechConfig = speakers?.length
+    ? {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: speakers.map(({ speaker, voice }) => ({
+            speaker,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+          })),
+        },
+      }
+    : {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName },
+        },
+      };
+
+  const response = await ai.models.generateContent({
+    model: SPEECH_MODEL,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig,
+    },
+  });
+
+  const base64Audio =
+    response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+
+  if (!base64Audio) throw new Error('No audio generated');
+
+  return base64Audio;
+}
@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+
+/**
+ * Bearer-token gate for the API routes. When `accessToken` is empty the gate is open,
+ * which is only intended for local development.
+ *
+ * The token is baked into the client bundle (`VITE_APP_ACCESS_TOKEN`), so anyone who can
+ * load the app can read it: it keeps casual traffic off the proxy but is a shared gate,
+ * not authentication of individual users.
+ */
+export function requireAccessToken(accessToken) {
+  const expected = accessToken ? Buffer.from(accessToken) : null;
+
+  return (req, res, next) => {
+    if (!expected) return next();
+
+    const header = req.get('authorization') || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    const provided = match ? Buffer.from(match[1].trim()) : null;
+
+    if (!provided || provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      return res.status(401).json({ error: 'Missing or invalid access token' });
+    }
+    next();
+  };
+}
+
+/**
+ * Fixed-window, in-memory rate limiter keyed per client IP. Every client sends the same
+ * shared access token, so the token cannot tell clients apart, and a caller must not be
+ * able to pick its own bucket by varying the Authorization header.
+ */
+export function rateLimit({ windowMs, max }) {
+  const hits = new Map();
+
+  // Periodically forget clients whose window has already elapsed.
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of hits) {
+      if (entry.resetAt <= now) hits.delete(key);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  return (req, res, next) => {
+    const key = req.ip;
+    const now = Date.now();
+    let entry = hits.get(key);
+
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+    entry.count++;
+
+    res.set('RateLimit-Limit', String(max));
+    res.set('RateLimit-Remaining', String(Math.max(0, max - entry.count)));
+
+    if (entry.count > max) {
+      res.set('Retry-After', String(Math.ceil((entry.resetAt - now) / 1000)));
+      return res.status(429).json({ error: 'Too many requests, slow down' });
+    }
+    next();
+  };
+}
+
+/**
+ * Reject string fields that exceed a character budget before they reach Gemini.
+ */
+export function limitTextField(field, maxChars) {
+  return (req, res, next) => {
+    const value = req.body?.[field];
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      return res.status(400).json({ error: `"${field}" must be a non-empty string` });
+    }
+    if (value.length > maxChars) {
+      return res.status(413).json({ error: `"${field}" exceeds ${maxChars} characters` });
+    }
+    next();
+  };
+}
@@ -0,0 +1,207 @@
+import { DocumentData, PageContent, PcmSpeechEngine } from '../types';
+import { STORES, iterateCursor, promisifyRequest, withStore } from './db';
+import { sha256Hex } from './cacheService';
+import { createSynthesisPipeline, iterateChunks, SpeechChunk } from './synthesisPipeline';
+import { buildCueSheet, CueMarker, encodeCueChunks, encodeWavHeader, stretchPcm16 } from '../utils/wav';
+import { normalizeForSpeech, SpeechNormalization } from '../utils/textNormalizer';
+import { castText } from '../utils/voiceCasting';
+import { prosodyFor } from '../utils/prosody';
+
+/**
+ * Whole-document export to a single WAV with chapter markers.
+ *
+ * Every synthesized chunk is written to the `export-parts` store as soon as it
+ * arrives, so an interrupted export picks up where it stopped.
+ */
+
+export interface ExportProgress {
+  phase: 'analyzing' | 'synthesizing' | 'encoding';
+  done: number;
+  total: number;
+}
+
+export interface ExportOptions {
+  engine: PcmSpeechEngine;
+  voice: string;
+  speed: number;
+  includeFurniture?: boolean;
+  /** Lexicon and expansion rules applied to each chunk before synthesis. */
+  normalization?: SpeechNormalization;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+  prepareBlocks: (page: PageContent, pageIndex: number) => Promise<void>;
+}
+
+export interface AudiobookExport {
+  wav: Blob;
+  cueSheet: string;
+  fileName: string;
+  chapters: CueMarker[];
+}
+
+interface ExportPart {
+  key: string;
+  exportId: string;
+  seq: number;
+  bytes: ArrayBuffer;
+}
+
+const EXPORT_CONCURRENCY = 3;
+const MAX_CHAPTER_TITLE = 80;
+
+function partKey(exportId: string, seq: number): string {
+  return `${exportId}:${String(seq).padStart(6, '0')}`;
+}
+
+/**
+ * Parts depend on document, engine, voice and the document's voice casting, which blocks
+ * are read and how their text is normalized; speed is applied when encoding.
+ */
+export function exportIdFor(
+  doc: DocumentData,
+  engine: PcmSpeechEngine,
+  voice: string,
+  includeFurniture: boolean = false,
+  normalization?: SpeechNormalization
+): Promise<string> {
+  const spoken = normalization ? JSON.stringify([normalization.rules, normalization.mathVerbosity, normalization.lexicon.map(({ id, ...rest }) => rest)]) : '';
+  const casting = JSON.stringify(doc.voiceCasting?.[engine.id] || {});
+  return sha256Hex(`${doc.id}:${engine.id}:${engine.model}:${voice}:${casting}:${includeFurniture ? 'all' : 'body'}:${spoken}`);
+}
+
+async function storedPartSeqs(exportId: string): Promise<Set<number>> {
+  const seqs = new Set<number>();
+  await withStore(STORES.exportParts, 'readonly', async (store) => {
+    const keys = await promisifyRequest(store.index('exportId').getAllKeys(IDBKeyRange.only(exportId)));
+    keys.forEach(k => seqs.add(parseInt(String(k).split(':').pop()!, 10)));
+  });
+  return seqs;
+}
+
+/**
+ * Number of chunks already synthesized for a previous, unfinished export.
+ */
+export async function countResumableParts(
+  doc: DocumentData,
+  engine: PcmSpeechEngine,
+  voice: string,
+  includeFurniture: boolean = false,
+  normalization?: SpeechNormalization
+): Promise<number> {
+  return (await storedPartSeqs(await exportIdFor(doc, engine, voice, includeFurniture, normalization))).size;
+}
+
+export async function discardExportParts(exportId: string): Promise<void> {
+  await withStore(STORES.exportParts, 'readwrite', (store) =>
+    iterateCursor(store.index('exportId'), 'next', (cursor) => { cursor.delete(); }, IDBKeyRange.only(exportId))
+  );
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+function chapterTitle(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > MAX_CHAPTER_TITLE ? `${clean.slice(0, MAX_CHAPTER_TITLE - 1)}…` : clean;
+}
+
+/**
+ * Markers start at every heading block; documents without headings get one marker per page.
+ */
+function isChapterStart(doc: DocumentData, chunk: SpeechChunk, useHeadings: boolean): string | null {
+  if (chunk.chunkIndex !== 0) return null;
+  const page = doc.pages[chunk.pageIndex];
+  const block = page.blocks[chunk.blockIndex];
+
+  if (useHeadings) return block.type === 'heading' ? chapterTitle(block.content) : null;
+  return chunk.blockIndex === 0 ? `Page ${page.pageNumber}` : null;
+}
+
+export async function exportAudiobook(doc: DocumentData, options: ExportOptions): Promise<AudiobookExport> {
+  const { engine, voice, speed, includeFurniture, normalization, signal, onProgress, prepareBlocks } = options;
+  const sampleRate = engine.capabilities.sampleRate!;
+  const throwIfAborted = () => { if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError'); };
+
+  // 1. Make sure every page has blocks so the chunk sequence (and part numbering) is stable.
+  for (let i = 0; i < doc.pages.length; i++) {
+    throwIfAborted();
+    onProgress?.({ phase: 'analyzing', done: i, total: doc.pages.length });
+    await prepareBlocks(doc.pages[i], i);
+  }
+
+  const chunks: SpeechChunk[] = [];
+  for await (const chunk of iterateChunks(doc, { page: 0, block: 0 }, prepareBlocks, { includeFurniture })) chunks.push(chunk);
+
+  // 2. Synthesize whatever is not stored yet.
+  const exportId = await exportIdFor(doc, engine, voice, includeFurniture, normalization);
+  const stored = await storedPartSeqs(exportId);
+  let done = stored.size;
+  onProgress?.({ phase: 'synthesizing', done, total: chunks.length });
+
+  const pending = chunks.map((chunk, seq) => ({ chunk, seq })).filter(c => !stored.has(c.seq));
+  const seqOf = new Map(pending.map(p => [p.chunk, p.seq]));
+  const casting = doc.voiceCasting?.[engine.id];
+  const pipeline = createSynthesisPipeline<Uint8Array>(
+    fromArray(pending.map(p => p.chunk)),
+    (chunk, pipelineSignal) => {
+      const text = normalization ? normalizeForSpeech(chunk.spoken ?? chunk.text, normalization, chunk.blockType) : chunk.spoken ?? chunk.text;
+      const cast = castText(text, chunk.blockType, casting, voice, engine.capabilities.multiSpeaker);
+      return engine.synthesize(cast.text, cast.voice, pipelineSignal, cast.speakers);
+    },
+    EXPORT_CONCURRENCY
+  );
+  const onAbort = () => pipeline.cancel();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    for (let item = await pipeline.next(); item; item = await pipeline.next()) {
+      throwIfAborted();
+      if (!item.ok) throw item.error;
+
+      const seq = seqOf.get(item.chunk)!;
+      const part: ExportPart = { key: partKey(exportId, seq), exportId, seq, bytes: item.result!.slice().buffer };
+      await withStore(STORES.exportParts, 'readwrite', (store) => { store.put(part); });
+      onProgress?.({ phase: 'synthesizing', done: ++done, total: chunks.length });
+    }
+    throwIfAborted();
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  // 3. Stitch parts together in order, applying speed and recording chapter offsets.
+  //    Each block type keeps the rate it is read at in the app (headings and math slower).
+  const useHeadings = doc.pages.some(p => p.blocks.some(b => b.type === 'heading'));
+  const dataParts: Uint8Array[] = [];
+  const chapters: CueMarker[] = [];
+  let frames = 0;
+
+  for (let seq = 0; seq < chunks.length; seq++) {
+    throwIfAborted();
+    onProgress?.({ phase: 'encoding', done: seq, total: chunks.length });
+
+    const part = await withStore(STORES.exportParts, 'readonly', (store) =>
+      promisifyRequest<ExportPart | undefined>(store.get(partKey(exportId, seq)))
+    );
+    if (!part) throw new Error(`Missing audio for part ${seq + 1}; run the export again to resume.`);
+
+    const title = isChapterStart(doc, chunks[seq], useHeadings);
+    if (title) chapters.push({ frame: frames, label: title });
+
+    const pcm = stretchPcm16(new Uint8Array(part.bytes), speed * prosodyFor(chunks[seq].blockType).rateScale, sampleRate);
+    dataParts.push(pcm);
+    frames += pcm.byteLength / 2;
+  }
+
+  const dataBytes = frames * 2;
+  const cueChunks = encodeCueChunks(chapters);
+  const baseName = doc.name.replace(/\.[^.]+$/, '') || 'audiobook';
+  const fileName = `${baseName}.wav`;
+  const wavParts = [encodeWavHeader(dataBytes, sampleRate, 1, cueChunks.byteLength), ...dataParts, cueChunks] as BlobPart[];
+  const wav = new Blob(wavParts, { type: 'audio/wav' });
+
+  await discardExportParts(exportId);
+  onProgress?.({ phase: 'encoding', done: chunks.length, total: chunks.length });
+
+  return { wav, cueSheet: buildCueSheet(baseName, fileName, chapters, sampleRate), fileName, chapters };
+}
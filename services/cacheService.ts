@@ -0,0 +1,183 @@
+import { STORES, StoreName, iterateCursor, promisifyRequest, withStore } from './db';
+import { LayoutBlock } from '../types';
+
+/**
+ * Persistent caches for synthesized PCM and AI-cleaned page blocks, so replays,
+ * page jumps and reopened files don't re-bill Gemini.
+ */
+
+const CACHE_LIMIT_KEY = 'omnivoice.cacheLimitMb';
+const DEFAULT_CACHE_LIMIT_MB = 200;
+
+interface AudioCacheEntry {
+  key: string;
+  bytes: ArrayBuffer;
+  size: number;
+  lastAccess: number;
+}
+
+interface LayoutCacheEntry {
+  key: string;
+  blocks: LayoutBlock[];
+  size: number;
+  lastAccess: number;
+}
+
+export interface StoreUsage {
+  entries: number;
+  bytes: number;
+}
+
+export interface CacheUsage {
+  audio: StoreUsage;
+  layout: StoreUsage;
+  limitBytes: number;
+  /** Origin-wide figures from the Storage API, when the browser exposes them. */
+  quota?: { usage: number; quota: number };
+}
+
+export interface AudioCacheKeyParts {
+  text: string;
+  voice: string;
+  engine: string;
+  model: string;
+  sampleRate: number;
+}
+
+export function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Stable document id derived from the file contents, so reopening a file hits the same cache entries.
+ */
+export async function fingerprintFile(file: File): Promise<string> {
+  return sha256Hex(await file.arrayBuffer());
+}
+
+export async function audioCacheKey({ text, voice, engine, model, sampleRate }: AudioCacheKeyParts): Promise<string> {
+  return `${engine}:${model}:${voice}:${sampleRate}:${await sha256Hex(normalizeText(text))}`;
+}
+
+function layoutCacheKey(docId: string, pageNumber: number): string {
+  return `${docId}:${pageNumber}`;
+}
+
+export function getCacheLimitBytes(): number {
+  const stored = Number(localStorage.getItem(CACHE_LIMIT_KEY));
+  return (stored > 0 ? stored : DEFAULT_CACHE_LIMIT_MB) * 1024 * 1024;
+}
+
+export function setCacheLimitMb(mb: number): Promise<void> {
+  localStorage.setItem(CACHE_LIMIT_KEY, String(mb));
+  return enforceCacheLimit();
+}
+
+async function readAndTouch<T extends { lastAccess: number }>(storeName: StoreName, key: string): Promise<T | undefined> {
+  return withStore(storeName, 'readwrite', async (store) => {
+    const entry = await promisifyRequest<T | undefined>(store.get(key));
+    if (entry) {
+      entry.lastAccess = Date.now();
+      store.put(entry);
+    }
+    return entry;
+  });
+}
+
+export async function getCachedAudio(key: string): Promise<Uint8Array | null> {
+  try {
+    const entry = await readAndTouch<AudioCacheEntry>(STORES.audio, key);
+    return entry ? new Uint8Array(entry.bytes) : null;
+  } catch (e) {
+    console.warn('Audio cache read failed', e);
+    return null;
+  }
+}
+
+export async function putCachedAudio(key: string, bytes: Uint8Array): Promise<void> {
+  const copy = bytes.slice().buffer;
+  const entry: AudioCacheEntry = { key, bytes: copy, size: copy.byteLength, lastAccess: Date.now() };
+  await withStore(STORES.audio, 'readwrite', (store) => { store.put(entry); });
+  await enforceCacheLimit();
+}
+
+export async function getCachedLayout(docId: string, pageNumber: number): Promise<LayoutBlock[] | null> {
+  try {
+    const entry = await readAndTouch<LayoutCacheEntry>(STORES.layout, layoutCacheKey(docId, pageNumber));
+    // Entries written before blocks were cached hold plain text; treat them as misses.
+    return entry && Array.isArray(entry.blocks) ? entry.blocks : null;
+  } catch (e) {
+    console.warn('Layout cache read failed', e);
+    return null;
+  }
+}
+
+export async function putCachedLayout(docId: string, pageNumber: number, blocks: LayoutBlock[]): Promise<void> {
+  const entry: LayoutCacheEntry = {
+    key: layoutCacheKey(docId, pageNumber),
+    blocks,
+    size: JSON.stringify(blocks).length * 2,
+    lastAccess: Date.now()
+  };
+  await withStore(STORES.layout, 'readwrite', (store) => { store.put(entry); });
+}
+
+async function storeUsage(storeName: StoreName): Promise<StoreUsage> {
+  const usage: StoreUsage = { entries: 0, bytes: 0 };
+  await withStore(storeName, 'readonly', (store) =>
+    iterateCursor(store, 'next', (cursor) => {
+      usage.entries++;
+      usage.bytes += cursor.value.size || 0;
+    })
+  );
+  return usage;
+}
+
+/**
+ * Evict least-recently-used audio until the cache fits under the configured cap.
+ * Cleaned page blocks are tiny by comparison and are never evicted automatically.
+ */
+export async function enforceCacheLimit(): Promise<void> {
+  const limit = getCacheLimitBytes();
+  let total = 0;
+  await withStore(STORES.audio, 'readwrite', (store) =>
+    iterateCursor(store.index('lastAccess'), 'prev', (cursor) => {
+      total += cursor.value.size || 0;
+      if (total > limit) cursor.delete();
+    })
+  );
+}
+
+export async function getCacheUsage(): Promise<CacheUsage> {
+  const [audio, layout] = await Promise.all([storeUsage(STORES.audio), storeUsage(STORES.layout)]);
+  const usage: CacheUsage = { audio, layout, limitBytes: getCacheLimitBytes() };
+
+  if (navigator.storage?.estimate) {
+    const { usage: used = 0, quota = 0 } = await navigator.storage.estimate();
+    usage.quota = { usage: used, quota };
+  }
+  return usage;
+}
+
+export async function clearCache(): Promise<void> {
+  await Promise.all([
+    withStore(STORES.audio, 'readwrite', (store) => { store.clear(); }),
+    withStore(STORES.layout, 'readwrite', (store) => { store.clear(); }),
+    withStore(STORES.exportParts, 'readwrite', (store) => { store.clear(); })
+  ]);
+}
+
+/**
+ * Drop the cleaned page blocks of a single document.
+ */
+export async function clearCachedLayout(docId: string): Promise<void> {
+  await withStore(STORES.layout, 'readwrite', (store) => {
+    store.delete(IDBKeyRange.bound(`${docId}:`, `${docId}:\uffff`));
+  });
+}
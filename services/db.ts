@@ -0,0 +1,116 @@
+/**
+ * Thin promise wrapper around the app's single IndexedDB database.
+ */
+
+const DB_NAME = 'omnivoice';
+const DB_VERSION = 4;
+
+export const STORES = {
+  audio: 'audio-cache',
+  layout: 'layout-cache',
+  exportParts: 'export-parts',
+  library: 'library',
+  documents: 'documents',
+  files: 'files'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const oldVersion = event.oldVersion;
+
+      if (oldVersion < 1) {
+        db.createObjectStore(STORES.audio, { keyPath: 'key' }).createIndex('lastAccess', 'lastAccess');
+        db.createObjectStore(STORES.layout, { keyPath: 'key' }).createIndex('lastAccess', 'lastAccess');
+      }
+      if (oldVersion < 2) {
+        db.createObjectStore(STORES.exportParts, { keyPath: 'key' }).createIndex('exportId', 'exportId');
+      }
+      if (oldVersion < 3) {
+        // Library metadata is listed often; parsed pages live in their own store so listing stays cheap.
+        db.createObjectStore(STORES.library, { keyPath: 'id' }).createIndex('lastOpenedAt', 'lastOpenedAt');
+        db.createObjectStore(STORES.documents, { keyPath: 'id' });
+      }
+      if (oldVersion < 4) {
+        db.createObjectStore(STORES.files, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run `fn` inside a transaction and resolve once the transaction commits. If `fn`
+ * throws or rejects, the transaction is aborted and `fn`'s error is what rejects.
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  let result: T;
+  try {
+    result = await fn(tx.objectStore(storeName));
+  } catch (error) {
+    // The abort rejects `done`; nobody waits on it now, so keep that quiet.
+    done.catch(() => {});
+    try {
+      tx.abort();
+    } catch {
+      // Already committed or aborted.
+    }
+    throw error;
+  }
+  await done;
+  return result;
+}
+
+/**
+ * Walk a store or index with a cursor, calling `visit` for every record (optionally within `query`).
+ */
+export function iterateCursor(
+  source: IDBObjectStore | IDBIndex,
+  direction: IDBCursorDirection,
+  visit: (cursor: IDBCursorWithValue) => void,
+  query: IDBKeyRange | null = null
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = source.openCursor(query, direction);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      visit(cursor);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
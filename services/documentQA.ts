@@ -0,0 +1,119 @@
+import { DocumentData, OutlineEntry } from '../types';
+import { askDocument } from './geminiService';
+import { BlockIndex, BlockRef, searchBlocks } from '../utils/searchIndex';
+
+/**
+ * Questions and section summaries over the parsed document. Passages are picked
+ * locally and only they are sent to the model, which cites them by number.
+ */
+
+export interface DocumentAnswer {
+  /** Answer text with [n] citation markers. */
+  text: string;
+  /** Where marker [n] points, at index n - 1. */
+  sources: BlockRef[];
+}
+
+export interface AnswerPart {
+  text: string;
+  /** Set on citation markers: the block the marker points at. */
+  source?: BlockRef;
+}
+
+const QUESTION_PASSAGES = 8;
+const MAX_BLOCK_CHARS = 1_500;
+// Kept under the server's passage limits.
+const SUMMARY_PASSAGES = 64;
+const MAX_SUMMARY_CHARS = 50_000;
+
+const NOT_FOUND = "I couldn't find anything in this document about that.";
+
+const byPosition = (a: BlockRef, b: BlockRef) => a.page - b.page || a.block - b.block;
+
+function blockText(doc: DocumentData, ref: BlockRef): string {
+  return doc.pages[ref.page].blocks[ref.block].content.slice(0, MAX_BLOCK_CHARS);
+}
+
+export async function answerQuestion(
+  doc: DocumentData,
+  index: BlockIndex,
+  question: string,
+  signal?: AbortSignal
+): Promise<DocumentAnswer> {
+  // Passages go to the model in reading order, which reads better than score order.
+  const sources: BlockRef[] = searchBlocks(index, question, QUESTION_PASSAGES)
+    .map(({ page, block }) => ({ page, block }))
+    .sort(byPosition);
+  if (sources.length === 0) return { text: NOT_FOUND, sources };
+
+  const text = await askDocument(question, sources.map(ref => blockText(doc, ref)), 'answer', signal);
+  return { text, sources };
+}
+
+/**
+ * Readable blocks from an outline entry up to the next entry at the same or a higher level.
+ */
+export function sectionBlocks(doc: DocumentData, outline: OutlineEntry[], sectionIndex: number): BlockRef[] {
+  const entry = outline[sectionIndex];
+  const end = outline
+    .filter(e => e.level <= entry.level && byPosition(e, entry) > 0)
+    .sort(byPosition)[0];
+
+  const refs: BlockRef[] = [];
+  for (let page = entry.page; page < doc.pages.length; page++) {
+    const blocks = doc.pages[page].blocks;
+    for (let block = page === entry.page ? entry.block : 0; block < blocks.length; block++) {
+      if (end && byPosition({ page, block }, end) >= 0) return refs;
+      if (!blocks[block].furniture) refs.push({ page, block });
+    }
+  }
+  return refs;
+}
+
+/**
+ * Summary of one outline section. Long sections are sent as runs of consecutive blocks,
+ * each cited by its first block.
+ */
+export async function summarizeSection(
+  doc: DocumentData,
+  outline: OutlineEntry[],
+  sectionIndex: number,
+  signal?: AbortSignal
+): Promise<DocumentAnswer> {
+  const refs: BlockRef[] = [];
+  let total = 0;
+  for (const ref of sectionBlocks(doc, outline, sectionIndex)) {
+    total += blockText(doc, ref).length;
+    if (total > MAX_SUMMARY_CHARS) break;
+    refs.push(ref);
+  }
+  if (refs.length === 0) return { text: 'This section has no text to summarize yet.', sources: [] };
+
+  const runLength = Math.ceil(refs.length / SUMMARY_PASSAGES);
+  const sources: BlockRef[] = [];
+  const passages: string[] = [];
+  for (let i = 0; i < refs.length; i += runLength) {
+    const run = refs.slice(i, i + runLength);
+    sources.push(run[0]);
+    passages.push(run.map(ref => blockText(doc, ref)).join('\n'));
+  }
+
+  const text = await askDocument(outline[sectionIndex].title, passages, 'summary', signal);
+  return { text, sources };
+}
+
+/**
+ * Split an answer into text and citation markers. Markers that point at no passage stay text.
+ */
+export function splitCitations(answer: DocumentAnswer): AnswerPart[] {
+  return answer.text.split(/(\[\d+\])/).filter(Boolean).map(part => {
+    const marker = part.match(/^\[(\d+)\]$/);
+    const source = marker ? answer.sources[Number(marker[1]) - 1] : undefined;
+    return source ? { text: part, source } : { text: part };
+  });
+}
+
+/** The answer as it should be spoken: without citation markers. */
+export function spokenAnswer(answer: DocumentAnswer): string {
+  return answer.text.replace(/\s*\[\d+\]/g, '').replace(/\s+([.,;:!?])/g, '$1');
+}
@@ -0,0 +1,150 @@
+import { openZip, ZipArchive } from '../utils/zip';
+import { collapseWhitespace, formatList, NESTED_ITEM_PREFIX, ParsedDocument, splitChapters, StructuredBlock, tableBlock, toParsedDocument } from '../utils/documentBlocks';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const M_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/math';
+
+interface ParagraphStyle {
+  name: string;
+  /** Heading level from the style's outline level, 1 for the top. */
+  level?: number;
+  numbered: boolean;
+}
+
+const children = (el: Element, name: string) => Array.from(el.children).filter(c => c.namespaceURI === W_NS && c.localName === name);
+const child = (el: Element | undefined, name: string) => el ? children(el, name)[0] : undefined;
+const wAttr = (el: Element | undefined, name: string) => el?.getAttributeNS(W_NS, name) ?? null;
+
+async function readXml(zip: ZipArchive, path: string): Promise<Document | null> {
+  if (!zip.has(path)) return null;
+  return new DOMParser().parseFromString(await zip.readText(path), 'application/xml');
+}
+
+function readStyles(doc: Document | null): Map<string, ParagraphStyle> {
+  const styles = new Map<string, ParagraphStyle>();
+  if (!doc) return styles;
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'style')).forEach(style => {
+    const id = wAttr(style, 'styleId');
+    if (!id) return;
+    const name = wAttr(child(style, 'name'), 'val') || id;
+    const pPr = child(style, 'pPr');
+    const outline = wAttr(child(pPr, 'outlineLvl'), 'val');
+    const headingMatch = name.match(/^heading\s*(\d)$/i);
+    const level = outline !== null && Number(outline) < 9 ? Number(outline) + 1
+      : headingMatch ? Number(headingMatch[1])
+      : /^title$/i.test(name) ? 1
+      : undefined;
+    styles.set(id, { name, level, numbered: !!child(pPr, 'numPr') });
+  });
+  return styles;
+}
+
+/**
+ * numId -> whether its first level is a numbered (rather than bulleted) format.
+ */
+function readNumbering(doc: Document | null): Map<string, boolean> {
+  const ordered = new Map<string, boolean>();
+  if (!doc) return ordered;
+  const abstractFormats = new Map<string, boolean>();
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'abstractNum')).forEach(abs => {
+    const lvl = child(abs, 'lvl');
+    abstractFormats.set(wAttr(abs, 'abstractNumId') || '', wAttr(child(lvl, 'numFmt'), 'val') !== 'bullet');
+  });
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'num')).forEach(num => {
+    ordered.set(wAttr(num, 'numId') || '', abstractFormats.get(wAttr(child(num, 'abstractNumId'), 'val') || '') ?? false);
+  });
+  return ordered;
+}
+
+function paragraphText(p: Element): string {
+  let text = '';
+  const walk = (el: Element) => {
+    Array.from(el.children).forEach(c => {
+      if (c.namespaceURI === W_NS) {
+        if (c.localName === 't') text += c.textContent || '';
+        else if (c.localName === 'tab' || c.localName === 'br' || c.localName === 'cr') text += ' ';
+        else if (c.localName !== 'instrText' && c.localName !== 'delText') walk(c);
+      } else if (c.namespaceURI === M_NS && c.localName === 't') {
+        text += c.textContent || '';
+      } else {
+        walk(c);
+      }
+    });
+  };
+  walk(p);
+  return collapseWhitespace(text);
+}
+
+function isMathOnly(p: Element): boolean {
+  return p.getElementsByTagNameNS(M_NS, 'oMath').length > 0 && p.getElementsByTagNameNS(W_NS, 't').length === 0;
+}
+
+/**
+ * Read `word/document.xml` body in order. Heading styles become headings, runs of
+ * list paragraphs are grouped into one list, tables keep their rows and cells.
+ */
+export async function parseDocx(file: File): Promise<ParsedDocument> {
+  const zip = openZip(await file.arrayBuffer());
+  const document = await readXml(zip, 'word/document.xml');
+  const body = document?.getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) throw new Error("This Word file has no document body.");
+
+  const styles = readStyles(await readXml(zip, 'word/styles.xml'));
+  const numbering = readNumbering(await readXml(zip, 'word/numbering.xml'));
+
+  const blocks: StructuredBlock[] = [];
+  let list: { items: string[]; ordered: boolean } | null = null;
+  const flushList = () => {
+    if (list && list.items.length) blocks.push({ type: 'list', content: formatList(list.items, list.ordered) });
+    list = null;
+  };
+
+  const visit = (el: Element) => {
+    if (el.namespaceURI !== W_NS) return;
+
+    if (el.localName === 'sdt') {
+      const content = child(el, 'sdtContent');
+      if (content) Array.from(content.children).forEach(visit);
+      return;
+    }
+
+    if (el.localName === 'tbl') {
+      flushList();
+      const trs = children(el, 'tr');
+      const rows = trs.map(tr => children(tr, 'tc').map(tc => children(tc, 'p').map(paragraphText).join(' ').trim()));
+      // Heading rows are marked to repeat on every page.
+      const table = tableBlock(rows, !!child(child(trs[0], 'trPr'), 'tblHeader'));
+      if (table) blocks.push(table);
+      return;
+    }
+
+    if (el.localName !== 'p') return;
+
+    const pPr = child(el, 'pPr');
+    const style = styles.get(wAttr(child(pPr, 'pStyle'), 'val') || '');
+    const numPr = child(pPr, 'numPr');
+    const text = paragraphText(el);
+    if (!text) return;
+
+    if (numPr || style?.numbered) {
+      const ordered = numbering.get(wAttr(child(numPr, 'numId'), 'val') || '') ?? false;
+      const depth = Number(wAttr(child(numPr, 'ilvl'), 'val') || 0);
+      if (!list) list = { items: [], ordered };
+      list.items.push(depth > 0 ? `${NESTED_ITEM_PREFIX}${text}` : text);
+      return;
+    }
+
+    flushList();
+    const outline = wAttr(child(pPr, 'outlineLvl'), 'val');
+    const level = outline !== null && Number(outline) < 9 ? Number(outline) + 1 : style?.level;
+
+    if (level !== undefined) blocks.push({ type: 'heading', content: text, level });
+    else if (isMathOnly(el)) blocks.push({ type: 'math', content: text });
+    else if (style && /caption/i.test(style.name)) blocks.push({ type: 'chart-desc', content: text });
+    else blocks.push({ type: 'paragraph', content: text });
+  };
+
+  Array.from(body.children).forEach(visit);
+  flushList();
+  return toParsedDocument(splitChapters(blocks));
+}
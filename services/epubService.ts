@@ -0,0 +1,61 @@
+import { openZip, ZipArchive } from '../utils/zip';
+import { ParsedDocument, toParsedDocument } from '../utils/documentBlocks';
+import { htmlToBlocks } from './htmlService';
+
+function parseXml(text: string, type: DOMParserSupportedType = 'application/xml'): Document {
+  const doc = new DOMParser().parseFromString(text, type);
+  if (doc.getElementsByTagName('parsererror').length > 0 && type !== 'text/html') {
+    // Plenty of EPUBs ship chapters that are not well-formed XHTML; the HTML parser is forgiving.
+    return parseXml(text, 'text/html');
+  }
+  return doc;
+}
+
+/**
+ * Resolve an href relative to the file that references it, within the archive.
+ */
+function resolvePath(base: string, href: string): string {
+  const parts = base.split('/').slice(0, -1);
+  decodeURIComponent(href.split('#')[0]).split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+}
+
+async function readPackage(zip: ZipArchive): Promise<{ opfPath: string; opf: Document }> {
+  const container = parseXml(await zip.readText('META-INF/container.xml'));
+  const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) throw new Error("This EPUB has no package document.");
+  return { opfPath, opf: parseXml(await zip.readText(opfPath)) };
+}
+
+/**
+ * Read an EPUB's spine in order; each spine document (usually one chapter) becomes a page.
+ */
+export async function parseEpub(file: File): Promise<ParsedDocument> {
+  const zip = openZip(await file.arrayBuffer());
+  const { opfPath, opf } = await readPackage(zip);
+
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) manifest.set(id, { href: resolvePath(opfPath, href), mediaType: item.getAttribute('media-type') || '' });
+  });
+
+  const spine = Array.from(opf.getElementsByTagName('itemref'))
+    .filter(ref => ref.getAttribute('linear') !== 'no')
+    .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+    .filter((item): item is { href: string; mediaType: string } => !!item && /html|xml/.test(item.mediaType) && zip.has(item.href));
+
+  if (spine.length === 0) throw new Error("This EPUB has no readable chapters.");
+
+  const chapters = [];
+  for (const item of spine) {
+    const chapter = parseXml(await zip.readText(item.href), 'application/xhtml+xml');
+    const body = chapter.getElementsByTagName('body')[0] || chapter.documentElement;
+    chapters.push(htmlToBlocks(body));
+  }
+  return toParsedDocument(chapters);
+}
@@ -1,46 +1,127 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-
 /**
  * OmniVoice AI Model Strategy:
  * 1. Intelligence & Layout Analysis: 'gemini-3-pro-preview'
  * 2. Voice Synthesis: 'gemini-2.5-flash-preview-tts'
+ *
+ * Both models are reached through the server-side proxy in `server.js`;
+ * the Gemini API key never ships to the browser.
  */
 
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+import { BlockType, LayoutBlock, SpeakerVoice } from '../types';
+import { isAbortError, isTransientStatus, withRetry } from '../utils/retry';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? '';
+// Shipped in the bundle, so it is a shared gate in front of the proxy, not a user credential.
+const ACCESS_TOKEN = import.meta.env.VITE_APP_ACCESS_TOKEN;
+
+export class GeminiServiceError extends Error {
+  /**
+   * @param status HTTP status of the proxy's response, or 0 when there was no response (network down).
+   * @param retryAfter Seconds the server asked to wait before retrying, when it said.
+   */
+  constructor(message: string, public status: number, public retryAfter?: number) {
+    super(message);
+    this.name = 'GeminiServiceError';
+  }
+}
+
+/**
+ * Failures worth retrying: quota (429), upstream errors (5xx) and the network being down
+ * (no response at all). Other errors, including TypeErrors from bugs, are not.
+ */
+export function isTransientError(error: unknown): boolean {
+  return error instanceof GeminiServiceError && isTransientStatus(error.status);
+}
 
-if (!apiKey) {
-  console.error("VITE_GEMINI_API_KEY is not defined");
+/** The layout model answered, but not with usable blocks. */
+export class MalformedLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MalformedLayoutError';
+  }
 }
 
+const BLOCK_TYPES = new Set<BlockType>(['paragraph', 'heading', 'list', 'table', 'sidebar', 'math', 'chart-desc']);
+
 /**
- * Intelligent Content Interpretation
+ * Check the model's response against the block shape. Returns the trimmed blocks, or
+ * null when anything is off so the caller never reads half a page.
  */
-export async function processRawLayout(rawText: string): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey });
-
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: `You are an expert document reconstruction AI. 
-      Analyze the following raw extracted text from a complex document page. 
-      The text might contain broken words, artifacts from multi-column layouts, 
-      mathematical symbols, or table data.
-      
-      Rules:
-      1. Repair hyphenated words and broken sentences.
-      2. Convert table-like structures into descriptive, narrative sentences.
-      3. Convert mathematical notation into clear, spoken-word English.
-      4. Remove headers, footers, and page numbers.
-      5. Output ONLY the clean, logically ordered narrative optimized for a high-end TTS reader.
-
-      Raw Text:
-      ${rawText}`,
-    config: {
-      temperature: 0.1,
-      thinkingConfig: { thinkingBudget: 8000 }
-    }
+export function validateLayoutBlocks(value: unknown): LayoutBlock[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const blocks: LayoutBlock[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return null;
+    const { type, content } = item as Record<string, unknown>;
+    if (typeof type !== 'string' || !BLOCK_TYPES.has(type as BlockType)) return null;
+    if (typeof content !== 'string') return null;
+    if (content.trim()) blocks.push({ type: type as BlockType, content: content.trim() });
+  }
+  return blocks.length > 0 ? blocks : null;
+}
+
+async function postJsonOnce<T>(route: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (ACCESS_TOKEN) headers.Authorization = `Bearer ${ACCESS_TOKEN}`;
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}/api${route}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    // fetch rejects with a TypeError when no response arrives; an abort is not a network failure.
+    if (isAbortError(error) || !(error instanceof TypeError)) throw error;
+    throw new GeminiServiceError('Could not reach the server', 0);
+  }
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+    throw new GeminiServiceError(payload.error || `Request failed (${response.status})`, response.status, retryAfter);
+  }
+
+  return response.json();
+}
+
+/**
+ * POST to the proxy, retrying transient failures with backoff. Aborting `signal` cancels
+ * the request in flight and any wait between attempts.
+ */
+function postJson<T>(route: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  return withRetry(() => postJsonOnce<T>(route, body, signal), {
+    signal,
+    isRetryable: isTransientError,
+    retryAfterMs: (error) => error instanceof GeminiServiceError && error.retryAfter ? error.retryAfter * 1000 : undefined
   });
+}
 
-  return response.text || rawText;
+/**
+ * Intelligent Content Interpretation. Throws `MalformedLayoutError` when the response does not validate.
+ */
+export async function processRawLayout(rawText: string, signal?: AbortSignal): Promise<LayoutBlock[]> {
+  const { blocks } = await postJson<{ blocks: unknown }>('/layout', { rawText }, signal);
+  const valid = validateLayoutBlocks(blocks);
+  if (!valid) throw new MalformedLayoutError('Layout model returned malformed blocks');
+  return valid;
+}
+
+/**
+ * Document Q&A: an answer drawn from the numbered passages, citing them as [n].
+ * In 'summary' mode `question` is the title of the section being summarized.
+ */
+export async function askDocument(
+  question: string,
+  passages: string[],
+  mode: 'answer' | 'summary' = 'answer',
+  signal?: AbortSignal
+): Promise<string> {
+  const { answer } = await postJson<{ answer: string }>('/ask', { question, passages, mode }, signal);
+  if (!answer) throw new Error("No answer generated");
+  return answer;
 }
 
 /**
@@ -48,29 +129,15 @@ export async function processRawLayout(rawText: string): Promise<string> {
  */
 export async function generateSpeech(
   text: string,
-  voiceName: string = "Kore"
+  voiceName: string = "Kore",
+  signal?: AbortSignal,
+  speakers?: SpeakerVoice[]
 ): Promise<Uint8Array> {
-  const ai = new GoogleGenAI({ apiKey });
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName },
-        },
-      },
-    },
-  });
-
-  const base64Audio =
-    response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  const { audio } = await postJson<{ audio: string }>('/speech', { text, voice: voiceName, speakers }, signal);
 
-  if (!base64Audio) throw new Error("No audio generated");
+  if (!audio) throw new Error("No audio generated");
 
-  return decode(base64Audio);
+  return decode(audio);
 }
 
 function decode(base64: string): Uint8Array {
@@ -0,0 +1,143 @@
+import { collapseWhitespace, formatList, NESTED_ITEM_PREFIX, ParsedDocument, splitChapters, StructuredBlock, tableBlock, toParsedDocument } from '../utils/documentBlocks';
+import { mathMLToNode, mathNodeToLatex } from '../utils/mathSpeech';
+
+// Site chrome and non-text content that should never be read.
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'button', 'form', 'input', 'select', 'textarea', 'nav', 'head']);
+const CONTAINER_TAGS = new Set(['html', 'body', 'main', 'article', 'section', 'div', 'header', 'footer', 'figure', 'center', 'details', 'summary', 'dl', 'dd', 'dt', 'li', 'td', 'th', 'hgroup', 'address']);
+const HEADING_PATTERN = /^h([1-6])$/;
+
+/**
+ * Text of an element with nested lists removed, for list items that contain sub-lists.
+ */
+function ownText(el: Element): string {
+  const clone = el.cloneNode(true) as Element;
+  clone.querySelectorAll('ul, ol').forEach(n => n.remove());
+  return collapseWhitespace(clone.textContent || '');
+}
+
+function listItems(list: Element, depth: number = 0): string[] {
+  const items: string[] = [];
+  Array.from(list.children).forEach(child => {
+    if (child.localName !== 'li') return;
+    const text = ownText(child);
+    if (text) items.push(depth > 0 ? `${NESTED_ITEM_PREFIX}${text}` : text);
+    child.querySelectorAll(':scope > ul, :scope > ol').forEach(nested => items.push(...listItems(nested, depth + 1)));
+  });
+  return items;
+}
+
+function tableRows(table: Element): string[][] {
+  return Array.from(table.querySelectorAll('tr')).map(row =>
+    Array.from(row.children)
+      .filter(cell => cell.localName === 'td' || cell.localName === 'th')
+      .map(cell => collapseWhitespace(cell.textContent || ''))
+  );
+}
+
+/**
+ * Walk an HTML or XHTML tree and emit typed blocks. Block-level elements map to
+ * block types; runs of inline content between them become paragraphs.
+ */
+export function htmlToBlocks(root: Element): StructuredBlock[] {
+  const blocks: StructuredBlock[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = collapseWhitespace(inline);
+    if (text) blocks.push({ type: 'paragraph', content: text });
+    inline = '';
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const el = node as Element;
+    const tag = el.localName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag) || el.getAttribute('aria-hidden') === 'true' || el.hasAttribute('hidden')) return;
+
+    const heading = tag.match(HEADING_PATTERN);
+    if (heading) {
+      flush();
+      const text = collapseWhitespace(el.textContent || '');
+      if (text) blocks.push({ type: 'heading', content: text, level: Number(heading[1]) });
+      return;
+    }
+
+    switch (tag) {
+      case 'ul':
+      case 'ol': {
+        flush();
+        const items = listItems(el);
+        if (items.length) blocks.push({ type: 'list', content: formatList(items, tag === 'ol') });
+        return;
+      }
+      case 'table': {
+        flush();
+        const firstRow = el.querySelector('tr');
+        const header = !!firstRow && Array.from(firstRow.children).some(cell => cell.localName === 'th');
+        const table = tableBlock(tableRows(el), header);
+        if (table) blocks.push(table);
+        return;
+      }
+      case 'aside':
+        flush();
+        htmlToBlocks(el).forEach(b => blocks.push(b.type === 'paragraph' ? { ...b, type: 'sidebar' } : b));
+        return;
+      case 'figcaption':
+      case 'caption': {
+        flush();
+        const text = collapseWhitespace(el.textContent || '');
+        if (text) blocks.push({ type: 'chart-desc', content: text });
+        return;
+      }
+      case 'math': {
+        flush();
+        // Keep TeX when the markup carries it; otherwise rebuild it from the MathML structure.
+        const tex = el.getAttribute('alttext') || el.querySelector('annotation[encoding="application/x-tex"]')?.textContent;
+        const text = collapseWhitespace(tex || mathNodeToLatex(mathMLToNode(el)));
+        if (text) blocks.push({ type: 'math', content: text });
+        return;
+      }
+      case 'p':
+      case 'blockquote':
+      case 'pre': {
+        flush();
+        Array.from(el.childNodes).forEach(visit);
+        flush();
+        return;
+      }
+      case 'br':
+        inline += ' ';
+        return;
+    }
+
+    if (CONTAINER_TAGS.has(tag)) {
+      flush();
+      Array.from(el.childNodes).forEach(visit);
+      flush();
+      return;
+    }
+
+    Array.from(el.childNodes).forEach(visit);
+  };
+
+  Array.from(root.childNodes).forEach(visit);
+  flush();
+  return blocks;
+}
+
+/**
+ * Prefer the page's main content when the markup marks it, so site navigation is left out.
+ */
+function contentRoot(doc: Document): Element {
+  return doc.querySelector('main, article, [role="main"]') || doc.body || doc.documentElement;
+}
+
+export async function parseHtml(file: File): Promise<ParsedDocument> {
+  const doc = new DOMParser().parseFromString(await file.text(), 'text/html');
+  return toParsedDocument(splitChapters(htmlToBlocks(contentRoot(doc))));
+}
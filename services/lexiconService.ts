@@ -0,0 +1,57 @@
+import { LexiconEntry } from '../utils/textNormalizer';
+
+/**
+ * The user's pronunciation lexicon, persisted in localStorage and exchanged as JSON files.
+ */
+
+const LEXICON_KEY = 'omnivoice.lexicon';
+
+export function createLexiconEntry(match: string = '', replacement: string = ''): LexiconEntry {
+  return { id: crypto.randomUUID(), match, replacement, regex: false, caseSensitive: false };
+}
+
+function sanitizeEntries(value: unknown): LexiconEntry[] {
+  if (!Array.isArray(value)) throw new Error("A lexicon file must contain a JSON array of entries.");
+  return value
+    .filter((e: any) => e && typeof e.match === 'string' && typeof e.replacement === 'string')
+    .map((e: any) => ({
+      id: typeof e.id === 'string' && e.id ? e.id : crypto.randomUUID(),
+      match: e.match,
+      replacement: e.replacement,
+      regex: !!e.regex,
+      caseSensitive: !!e.caseSensitive
+    }));
+}
+
+export function loadLexicon(): LexiconEntry[] {
+  try {
+    return sanitizeEntries(JSON.parse(localStorage.getItem(LEXICON_KEY) || '[]'));
+  } catch {
+    return [];
+  }
+}
+
+export function saveLexicon(entries: LexiconEntry[]): void {
+  localStorage.setItem(LEXICON_KEY, JSON.stringify(entries));
+}
+
+export function exportLexicon(entries: LexiconEntry[]): Blob {
+  const portable = entries.map(({ match, replacement, regex, caseSensitive }) => ({ match, replacement, regex, caseSensitive }));
+  return new Blob([JSON.stringify(portable, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Merge entries from an exported file; entries for a pattern already in the lexicon replace it.
+ */
+export async function importLexicon(file: File, current: LexiconEntry[]): Promise<LexiconEntry[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  const incoming = sanitizeEntries(parsed);
+  const keyOf = (e: LexiconEntry) => `${e.regex}:${e.caseSensitive ? e.match : e.match.toLowerCase()}`;
+  const replaced = new Set(incoming.map(keyOf));
+  return [...current.filter(e => !replaced.has(keyOf(e))), ...incoming];
+}
@@ -0,0 +1,132 @@
+import { DocumentData } from '../types';
+import { STORES, iterateCursor, promisifyRequest, withStore } from './db';
+import { clearCachedLayout } from './cacheService';
+
+/**
+ * Local library of parsed documents, so reopening a file (or reloading the tab)
+ * skips parsing, OCR and layout analysis and picks up where reading stopped.
+ */
+
+export interface ReadingBookmark {
+  page: number;
+  block: number;
+}
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  type: DocumentData['type'];
+  mimeType: string;
+  fileSize: number;
+  pageCount: number;
+  /** Approximate bytes the stored pages, and the original file when kept, take up. */
+  storedBytes: number;
+  position: ReadingBookmark;
+  /** Share of the document before `position`, 0-1. */
+  progress: number;
+  addedAt: number;
+  lastOpenedAt: number;
+}
+
+export interface FileMetadata {
+  mimeType: string;
+  fileSize: number;
+}
+
+function progressAt(doc: DocumentData, position: ReadingBookmark): number {
+  if (doc.pages.length === 0) return 0;
+  const blocks = doc.pages[position.page]?.blocks.length || 0;
+  const withinPage = blocks > 0 ? position.block / blocks : 0;
+  return Math.min(1, (position.page + withinPage) / doc.pages.length);
+}
+
+async function getEntry(id: string): Promise<LibraryEntry | undefined> {
+  return withStore(STORES.library, 'readonly', (store) => promisifyRequest<LibraryEntry | undefined>(store.get(id)));
+}
+
+/**
+ * Add a document to the library, or refresh its stored pages. The reading
+ * position and timestamps of an existing entry are kept.
+ */
+export async function saveDocument(doc: DocumentData, file?: FileMetadata): Promise<void> {
+  const existing = await getEntry(doc.id);
+  const now = Date.now();
+  const position = existing?.position || { page: 0, block: 0 };
+  const fileSize = file?.fileSize ?? existing?.fileSize ?? 0;
+  const keepsFile = doc.type === 'pdf' || doc.type === 'image';
+  const entry: LibraryEntry = {
+    id: doc.id,
+    name: doc.name,
+    type: doc.type,
+    mimeType: file?.mimeType ?? existing?.mimeType ?? '',
+    fileSize,
+    pageCount: doc.pages.length,
+    storedBytes: JSON.stringify(doc.pages).length * 2 + (keepsFile ? fileSize : 0),
+    position,
+    progress: progressAt(doc, position),
+    addedAt: existing?.addedAt || now,
+    lastOpenedAt: existing?.lastOpenedAt || now
+  };
+
+  await withStore(STORES.documents, 'readwrite', (store) => { store.put(doc); });
+  await withStore(STORES.library, 'readwrite', (store) => { store.put(entry); });
+}
+
+/**
+ * Load a stored document and mark it as the most recently opened.
+ */
+export async function openDocument(id: string): Promise<{ doc: DocumentData; entry: LibraryEntry } | null> {
+  const doc = await withStore(STORES.documents, 'readonly', (store) =>
+    promisifyRequest<DocumentData | undefined>(store.get(id))
+  );
+  const entry = await getEntry(id);
+  if (!doc || !entry) return null;
+
+  entry.lastOpenedAt = Date.now();
+  await withStore(STORES.library, 'readwrite', (store) => { store.put(entry); });
+  return { doc, entry };
+}
+
+/**
+ * Keep the original file of a laid-out document (PDF, image) for the page view.
+ */
+export async function saveSourceFile(id: string, file: Blob): Promise<void> {
+  await withStore(STORES.files, 'readwrite', (store) => { store.put({ id, blob: file }); });
+}
+
+export async function loadSourceFile(id: string): Promise<Blob | null> {
+  const record = await withStore(STORES.files, 'readonly', (store) =>
+    promisifyRequest<{ id: string; blob: Blob } | undefined>(store.get(id))
+  );
+  return record?.blob || null;
+}
+
+export async function saveReadingPosition(doc: DocumentData, position: ReadingBookmark): Promise<void> {
+  await withStore(STORES.library, 'readwrite', async (store) => {
+    const entry = await promisifyRequest<LibraryEntry | undefined>(store.get(doc.id));
+    if (!entry) return;
+    entry.position = position;
+    entry.progress = progressAt(doc, position);
+    store.put(entry);
+  });
+}
+
+/**
+ * Library entries, most recently opened first.
+ */
+export async function listLibrary(): Promise<LibraryEntry[]> {
+  const entries: LibraryEntry[] = [];
+  await withStore(STORES.library, 'readonly', (store) =>
+    iterateCursor(store.index('lastOpenedAt'), 'prev', (cursor) => { entries.push(cursor.value); })
+  );
+  return entries;
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  await Promise.all([
+    withStore(STORES.library, 'readwrite', (store) => { store.delete(id); }),
+    withStore(STORES.documents, 'readwrite', (store) => { store.delete(id); }),
+    withStore(STORES.files, 'readwrite', (store) => { store.delete(id); }),
+    clearCachedLayout(id)
+  ]);
+}
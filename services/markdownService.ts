@@ -0,0 +1,137 @@
+import { collapseWhitespace, formatList, NESTED_ITEM_PREFIX, ParsedDocument, splitChapters, StructuredBlock, tableBlock, toParsedDocument } from '../utils/documentBlocks';
+
+const ATX_HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const SETEXT_UNDERLINE = /^(=+|-+)\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const THEMATIC_BREAK = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+/**
+ * Strip inline Markdown so only the words are spoken: emphasis, code spans,
+ * links (keeping their text), images and HTML tags.
+ */
+export function stripInline(text: string): string {
+  return collapseWhitespace(
+    text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '$1')
+      .replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?=\W|$)/g, '$1$2')
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/\\([\\`*_{}\[\]()#+\-.!|])/g, '$1')
+  );
+}
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\||\|$/g, '').split('|').map(cell => stripInline(cell));
+}
+
+export function markdownToBlocks(source: string): StructuredBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: StructuredBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const text = stripInline(paragraph.join(' '));
+    if (text) blocks.push({ type: 'paragraph', content: text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (!line.trim() || (THEMATIC_BREAK.test(line) && paragraph.length === 0)) {
+      flushParagraph();
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      flushParagraph();
+      const fence = line.trim().slice(0, 3);
+      const body: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence)) body.push(lines[i]);
+      if (body.some(l => l.trim())) blocks.push({ type: 'paragraph', content: body.join('\n').trim() });
+      continue;
+    }
+
+    if (line.trim().startsWith('$$')) {
+      flushParagraph();
+      const body: string[] = [line.trim().slice(2)];
+      if (!body[0].endsWith('$$')) {
+        while (++i < lines.length && !lines[i].trim().endsWith('$$')) body.push(lines[i]);
+        if (i < lines.length) body.push(lines[i].trim());
+      }
+      const tex = body.join(' ').replace(/\$\$/g, '').trim();
+      if (tex) blocks.push({ type: 'math', content: tex });
+      continue;
+    }
+
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      flushParagraph();
+      blocks.push({ type: 'heading', content: stripInline(atx[2]), level: atx[1].length });
+      continue;
+    }
+
+    const underline = lines[i + 1]?.match(SETEXT_UNDERLINE);
+    if (underline && paragraph.length === 0 && !LIST_ITEM.test(line)) {
+      blocks.push({ type: 'heading', content: stripInline(line), level: underline[1][0] === '=' ? 1 : 2 });
+      i++;
+      continue;
+    }
+
+    if (TABLE_ROW.test(line) && lines[i + 1] && TABLE_SEPARATOR.test(lines[i + 1])) {
+      flushParagraph();
+      const rows = [tableCells(line)];
+      i++;
+      while (i + 1 < lines.length && TABLE_ROW.test(lines[i + 1])) rows.push(tableCells(lines[++i]));
+      const table = tableBlock(rows, true);
+      if (table) blocks.push(table);
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[2]);
+      const items: string[] = [];
+      let j = i;
+      while (j < lines.length) {
+        const m = lines[j].match(LIST_ITEM);
+        if (m) {
+          const text = stripInline(m[3]);
+          items.push(m[1].length >= 2 ? `${NESTED_ITEM_PREFIX}${text}` : text);
+        } else if (lines[j].trim() && /^\s+/.test(lines[j]) && items.length) {
+          // Indented continuation of the previous item.
+          items[items.length - 1] += ` ${stripInline(lines[j])}`;
+        } else {
+          break;
+        }
+        j++;
+      }
+      blocks.push({ type: 'list', content: formatList(items, ordered) });
+      i = j - 1;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      paragraph.push(line.replace(/^>\s?/, ''));
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+export async function parseMarkdown(file: File): Promise<ParsedDocument> {
+  return toParsedDocument(splitChapters(markdownToBlocks(await file.text())));
+}
@@ -1,10 +1,183 @@
+import { PageContent, TextItem } from '../types';
+import { analyzePages } from '../utils/layoutEngine';
 
 // Tesseract is loaded via CDN in index.html
 declare var Tesseract: any;
 
-export async function performOCR(imageSrc: string): Promise<string> {
-  const worker = await Tesseract.createWorker('eng');
-  const { data: { text } } = await worker.recognize(imageSrc);
-  await worker.terminate();
-  return text;
+const MAX_WORKERS = 4;
+// Workers hold the language model in memory; release them once OCR has been idle this long.
+const IDLE_TIMEOUT_MS = 60_000;
+// Words recognized below this confidence (0-100) are almost always noise from images or rules.
+const MIN_WORD_CONFIDENCE = 20;
+
+export interface OcrProgress {
+  done: number;
+  total: number;
+}
+
+/** An image to recognize, and the factor it was rendered at relative to page units. */
+export interface OcrImage {
+  source: any;
+  scale: number;
+}
+
+let scheduler: any = null;
+let workerCount = 0;
+let pendingWorkers: Promise<void> | null = null;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+function poolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+}
+
+/**
+ * Grow the shared scheduler to `wanted` workers (capped by the pool size).
+ * Workers are created once and reused across documents.
+ */
+async function ensureWorkers(wanted: number): Promise<any> {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  if (pendingWorkers) await pendingWorkers;
+  if (!scheduler) scheduler = Tesseract.createScheduler();
+
+  const target = Math.min(poolSize(), Math.max(1, wanted));
+  if (workerCount < target) {
+    const missing = target - workerCount;
+    workerCount = target;
+    pendingWorkers = Promise.all(
+      Array.from({ length: missing }, async () => scheduler.addWorker(await Tesseract.createWorker('eng')))
+    ).then(() => undefined);
+    try {
+      await pendingWorkers;
+    } catch (err) {
+      workerCount = scheduler.getNumWorkers();
+      throw err;
+    } finally {
+      pendingWorkers = null;
+    }
+  }
+  return scheduler;
+}
+
+function scheduleIdleShutdown() {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = setTimeout(() => { terminateOcrPool(); }, IDLE_TIMEOUT_MS);
+}
+
+export async function terminateOcrPool(): Promise<void> {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  const current = scheduler;
+  scheduler = null;
+  workerCount = 0;
+  if (current) await current.terminate();
+}
+
+/**
+ * Map Tesseract lines and words back to page-space text items. Every word on a
+ * line shares the line's vertical extent, so the layout engine sees clean lines
+ * and a font size that does not jitter with ascenders and descenders.
+ */
+function toTextItems(data: any, scale: number): TextItem[] {
+  const items: TextItem[] = [];
+  (data.lines || []).forEach((line: any) => {
+    const top = line.bbox.y0 / scale;
+    const height = (line.bbox.y1 - line.bbox.y0) / scale;
+    line.words.forEach((word: any) => {
+      const text = word.text.trim();
+      if (!text || word.confidence < MIN_WORD_CONFIDENCE) return;
+      items.push({
+        text,
+        box: { x: word.bbox.x0 / scale, y: top, w: (word.bbox.x1 - word.bbox.x0) / scale, h: height },
+        fontSize: height,
+        fontName: 'ocr',
+        confidence: word.confidence / 100
+      });
+    });
+  });
+  return items;
+}
+
+export async function recognizeImage(image: OcrImage): Promise<TextItem[]> {
+  const pool = await ensureWorkers(1);
+  try {
+    const { data } = await pool.addJob('recognize', image.source);
+    return toTextItems(data, image.scale);
+  } finally {
+    scheduleIdleShutdown();
+  }
+}
+
+export interface RecognitionQueue {
+  add(pageNumber: number): void;
+  /** Drop queued pages; pages already being recognized finish but are not reported. */
+  cancel(): void;
+}
+
+/**
+ * OCR pages on the worker pool as they turn up while a document streams in.
+ * Pages are rendered only as a worker frees up, so a long scan never holds
+ * more than a pool's worth of page images.
+ */
+export function createRecognitionQueue(
+  render: (pageNumber: number) => Promise<OcrImage>,
+  onPage: (pageNumber: number, items: TextItem[]) => void,
+  onError: (error: unknown) => void,
+  onProgress?: (progress: OcrProgress) => void
+): RecognitionQueue {
+  const queued: number[] = [];
+  let lanes = 0;
+  let done = 0;
+  let total = 0;
+  let cancelled = false;
+
+  const runLane = async () => {
+    lanes++;
+    try {
+      const pool = await ensureWorkers(total);
+      while (queued.length > 0 && !cancelled) {
+        const pageNumber = queued.shift()!;
+        const image = await render(pageNumber);
+        const { data } = await pool.addJob('recognize', image.source);
+        if (cancelled) return;
+        onPage(pageNumber, toTextItems(data, image.scale));
+        onProgress?.({ done: ++done, total });
+      }
+    } catch (err) {
+      if (!cancelled) onError(err);
+    } finally {
+      // Only the last lane out lets the pool go idle; the others may still be using it.
+      if (--lanes === 0) scheduleIdleShutdown();
+    }
+  };
+
+  return {
+    add(pageNumber) {
+      if (cancelled) return;
+      queued.push(pageNumber);
+      onProgress?.({ done, total: ++total });
+      if (lanes < poolSize()) runLane();
+    },
+    cancel() {
+      cancelled = true;
+      queued.length = 0;
+    }
+  };
+}
+
+/**
+ * OCR a photo or scan and run it through the layout engine as a one-page document.
+ */
+export async function parseImage(file: File): Promise<PageContent[]> {
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  const items = await recognizeImage({ source: file, scale: 1 });
+  return analyzePages([{ items, width, height }]);
 }
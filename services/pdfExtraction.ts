@@ -0,0 +1,159 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { OutlineEntry, PageContent, TextItem } from '../types';
+import { classifyPages, clusterPage, PageClusters, PageItems } from '../utils/layoutEngine';
+import { findTitleBlock } from '../utils/outline';
+
+/**
+ * Text extraction and layout analysis of a loaded PDF, shared by the parsing
+ * worker and the command-line narrator.
+ */
+
+// Pages with less extractable text than this are treated as scans and sent to OCR.
+const MIN_TEXT_CHARS = 20;
+// The first pages go out in a small batch so reading can start. It holds more than one page
+// because pages are never revisited once reported, and a running head or footer only shows as
+// furniture once it repeats. Later pages go in larger batches, because each batch re-runs
+// furniture detection over every page seen so far.
+const FIRST_BATCH_PAGES = 3;
+const BATCH_PAGES = 10;
+
+export interface ParsedPdf {
+  pages: PageContent[];
+  /** Empty when the file has no embedded outline. */
+  outline: OutlineEntry[];
+}
+
+export interface AnalyzeOptions {
+  /**
+   * Zero-based, end exclusive; pages outside the range are never extracted. Returned pages keep
+   * their page numbers in the whole document, and outline entries point into the returned pages.
+   */
+  range?: { from: number; to: number };
+  /** Text of a scanned page. Pages are analyzed in order, so the pages after it wait for it. */
+  recognize: (pageNumber: number) => Promise<TextItem[]>;
+  /** Newly analyzed pages, in page order. */
+  onPages?: (pages: PageContent[]) => void;
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+}
+
+function deferred<T>(): Deferred<T> {
+  const result = {} as Deferred<T>;
+  result.promise = new Promise<T>((resolve, reject) => {
+    result.resolve = resolve;
+    result.reject = reject;
+  });
+  // Pages after a failure are never awaited; keep their rejections quiet.
+  result.promise.catch(() => {});
+  return result;
+}
+
+/**
+ * Extract and analyze every page, reporting analyzed pages as they are ready.
+ * Each batch is classified against all the pages seen so far; pages already
+ * reported are not revisited.
+ */
+export async function analyzePdf(pdf: PDFDocumentProxy, options: AnalyzeOptions): Promise<ParsedPdf> {
+  const first = Math.min(options.range?.from ?? 0, pdf.numPages);
+  const total = Math.min(options.range?.to ?? Infinity, pdf.numPages) - first;
+
+  // Extraction runs ahead of analysis, so a scanned page waiting on OCR does not hold up the pages after it.
+  const extracted = Array.from({ length: Math.max(0, total) }, () => deferred<PageItems>());
+  (async () => {
+    for (let i = 0; i < total; i++) {
+      const page = await extractPageItems(await pdf.getPage(first + i + 1));
+      if (isScannedPage(page.items)) {
+        options.recognize(first + i + 1).then(items => extracted[i].resolve({ ...page, items }), extracted[i].reject);
+      } else {
+        extracted[i].resolve(page);
+      }
+    }
+  })().catch(error => extracted.forEach(d => d.reject(error)));
+
+  const parsed: PageClusters[] = [];
+  const pages: PageContent[] = [];
+  while (parsed.length < total) {
+    const batchEnd = Math.min(total, parsed.length + (pages.length === 0 ? FIRST_BATCH_PAGES : BATCH_PAGES));
+    while (parsed.length < batchEnd) parsed.push(clusterPage(await extracted[parsed.length].promise));
+    const batch = classifyPages(parsed, pages.length).map(page => ({ ...page, pageNumber: first + page.pageNumber }));
+    pages.push(...batch);
+    options.onPages?.(batch);
+  }
+
+  return { pages, outline: await readOutline(pdf, pages, first) };
+}
+
+async function extractPageItems(page: PDFPageProxy): Promise<PageItems> {
+  const textContent = await page.getTextContent();
+  const viewport = page.getViewport({ scale: 1.0 });
+
+  const items: TextItem[] = textContent.items.map((item: any) => {
+    // PDF space is bottom-up with the origin on the baseline; convert to a top-left box.
+    const height = item.height || Math.abs(item.transform[3]) || Math.abs(item.transform[0]);
+    return {
+      text: item.str,
+      box: {
+        x: item.transform[4],
+        y: viewport.height - item.transform[5] - height,
+        w: item.width,
+        h: height
+      },
+      fontSize: item.transform[0],
+      fontName: item.fontName
+    };
+  });
+
+  return { items, width: viewport.width, height: viewport.height };
+}
+
+function isScannedPage(items: TextItem[]): boolean {
+  const textChars = items.reduce((acc, it) => acc + it.text.replace(/\s/g, '').length, 0);
+  return textChars < MIN_TEXT_CHARS;
+}
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+/**
+ * Flatten the PDF's bookmark tree into entries pointing at a page and the block
+ * carrying the bookmark's title. `pages` starts at page index `first`. Entries whose
+ * destination cannot be resolved, or lies outside `pages`, are dropped.
+ */
+async function readOutline(pdf: PDFDocumentProxy, pages: PageContent[], first: number): Promise<OutlineEntry[]> {
+  let tree: OutlineNode[] | null = null;
+  try {
+    tree = await pdf.getOutline();
+  } catch (e) {
+    console.warn('Could not read PDF outline', e);
+  }
+  if (!tree) return [];
+
+  const outline: OutlineEntry[] = [];
+  const visit = async (nodes: OutlineNode[], level: number) => {
+    for (const node of nodes) {
+      const resolved = await resolvePageIndex(pdf, node.dest);
+      const page = resolved === null ? -1 : resolved - first;
+      if (pages[page]) {
+        outline.push({ title: node.title, level, page, block: findTitleBlock(pages[page], node.title) });
+      }
+      if (node.items?.length) await visit(node.items, level + 1);
+    }
+  };
+  await visit(tree, 0);
+  return outline;
+}
+
+async function resolvePageIndex(pdf: PDFDocumentProxy, dest: string | any[] | null): Promise<number | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    const target = explicit?.[0];
+    if (target === undefined || target === null) return null;
+    // Destinations point at a page either by object reference or by zero-based index.
+    return typeof target === 'number' ? target : await pdf.getPageIndex(target);
+  } catch {
+    return null;
+  }
+}
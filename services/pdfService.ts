@@ -1,6 +1,9 @@
 import * as pdfjsLib from 'pdfjs-dist';
-import { TextItem, PageContent } from '../types';
-import { clusterTextItems, determineReadingOrder } from '../utils/layoutEngine';
+import { PageContent, OutlineEntry } from '../types';
+import { createRecognitionQueue, OcrProgress } from './ocrService';
+import { ParsedPdf } from './pdfExtraction';
+import type { PdfWorkerMessage, PdfWorkerRequest } from './pdfWorker';
+import { isAbortError } from '../utils/retry';
 
 // Stable worker initialization for bundled environments. 
 // This must match the version in package.json exactly.
@@ -8,64 +11,130 @@ const PDFJS_VERSION = '4.10.38';
 // @ts-ignore
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${PDFJS_VERSION}/pdf.worker.mjs`;
 
-export async function parsePdf(file: File): Promise<PageContent[]> {
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ 
-      data: arrayBuffer,
-      disableAutoFetch: true,
-      disableStream: true
+// Render scale for OCR; roughly 216 dpi, enough for Tesseract on body-size text.
+const OCR_SCALE = 3.0;
+
+export interface PdfLoadProgress {
+  /** Pages analyzed so far. */
+  pages: number;
+  total: number;
+}
+
+export interface PdfLoadCallbacks {
+  /** Newly analyzed pages, in page order. The first few pages arrive together as soon as they are ready. */
+  onPages?: (pages: PageContent[], progress: PdfLoadProgress) => void;
+  onOcrProgress?: (progress: OcrProgress) => void;
+}
+
+export interface PdfLoader {
+  /** Pages analyzed so far; grows as parsing proceeds. */
+  pages: PageContent[];
+  /** Page `index`, once it is analyzed. Undefined past the last page, or when loading ends without it. */
+  pageAt(index: number): Promise<PageContent | undefined>;
+  /** Every page and the outline. Rejects if parsing fails, and with an AbortError when cancelled. */
+  done: Promise<ParsedPdf>;
+  cancel(): void;
+}
+
+function describeFailure(name: string, message: string): Error {
+  if (name === 'InvalidPDFException' || name === 'PasswordException' || message.includes('structure')) {
+    return new Error("This PDF appears to be corrupted or encrypted. Try converting it to images.");
+  }
+  return Object.assign(new Error(message), { name });
+}
+
+/**
+ * Parse a PDF in a worker, streaming analyzed pages back as they are ready.
+ * Scanned pages are rendered and OCR'd here and sent back for analysis.
+ */
+export function loadPdf(file: File, callbacks: PdfLoadCallbacks = {}): PdfLoader {
+  const worker = new Worker(new URL('./pdfWorker.ts', import.meta.url), { type: 'module' });
+  const send = (request: PdfWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+  const pages: PageContent[] = [];
+  // Unknown until the worker has opened the file.
+  let pageCount = Infinity;
+  let finished = false;
+  let waiters: { index: number; resolve: (page: PageContent | undefined) => void }[] = [];
+  let settle!: { resolve: (pdf: ParsedPdf) => void; reject: (error: unknown) => void };
+  const done = new Promise<ParsedPdf>((resolve, reject) => { settle = { resolve, reject }; });
+
+  const wake = () => {
+    waiters = waiters.filter(({ index, resolve }) => {
+      if (index < pages.length || finished || index >= pageCount) {
+        resolve(pages[index]);
+        return false;
+      }
+      return true;
     });
-    
-    const pdf = await loadingTask.promise;
-    const pages: PageContent[] = [];
-
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const viewport = page.getViewport({ scale: 1.0 });
-
-      const items: TextItem[] = textContent.items.map((item: any) => ({
-        text: item.str,
-        box: {
-          x: item.transform[4],
-          y: viewport.height - item.transform[5],
-          w: item.width,
-          h: item.height
-        },
-        fontSize: item.transform[0],
-        fontName: item.fontName
-      }));
-
-      const sortedItems = determineReadingOrder(items);
-      const clusteredBlocks = clusterTextItems(sortedItems, viewport.width, viewport.height);
-
-      pages.push({
-        pageNumber: i,
-        blocks: clusteredBlocks.map((c, idx) => ({
-          type: 'paragraph',
-          content: c,
-          order: idx,
-          confidence: 1.0
-        })),
-        rawText: clusteredBlocks.join('\n')
-      });
+  };
+
+  const finish = (error: unknown, outline: OutlineEntry[] = []) => {
+    if (finished) return;
+    finished = true;
+    worker.terminate();
+    ocr.cancel();
+    if (error) {
+      if (!isAbortError(error)) console.error("PDF Parsing Error:", error);
+      settle.reject(error);
+    } else {
+      settle.resolve({ pages, outline });
     }
+    wake();
+  };
 
-    return pages;
-  } catch (error: any) {
-    console.error("PDF Parsing Error:", error);
-    if (error.name === 'InvalidPDFException' || error.message.includes('structure')) {
-      throw new Error("This PDF appears to be corrupted or encrypted. Try converting it to images.");
+  const ocr = createRecognitionQueue(
+    async (pageNumber) => ({ source: await renderPage(await (await openPdf(file)).getPage(pageNumber), OCR_SCALE), scale: OCR_SCALE }),
+    (pageNumber, items) => send({ type: 'recognized', pageNumber, items }),
+    error => finish(error),
+    callbacks.onOcrProgress
+  );
+
+  worker.onmessage = (event: MessageEvent<PdfWorkerMessage>) => {
+    const message = event.data;
+    if (finished) return;
+    switch (message.type) {
+      case 'opened':
+        pageCount = message.pageCount;
+        wake();
+        break;
+      case 'scanned':
+        ocr.add(message.pageNumber);
+        break;
+      case 'pages':
+        pages.push(...message.pages);
+        callbacks.onPages?.(message.pages, { pages: pages.length, total: pageCount });
+        wake();
+        break;
+      case 'done':
+        finish(null, message.outline);
+        break;
+      case 'error':
+        finish(describeFailure(message.name, message.message));
+        break;
     }
-    throw error;
-  }
+  };
+  worker.onerror = (event) => finish(new Error(event.message || 'The PDF parser could not be started.'));
+
+  file.arrayBuffer()
+    .then(data => { if (!finished) send({ type: 'open', data }, [data]); })
+    .catch(error => finish(error));
+
+  return {
+    pages,
+    pageAt: (index) => index < pages.length || finished || index >= pageCount
+      ? Promise.resolve(pages[index])
+      : new Promise(resolve => waiters.push({ index, resolve })),
+    done,
+    cancel: () => finish(new DOMException('Aborted', 'AbortError'))
+  };
 }
 
-export async function renderPageToCanvas(file: File, pageNum: number, scale: number = 2.0): Promise<string> {
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const page = await pdf.getPage(pageNum);
+export function parsePdf(file: File, onOcrProgress?: (progress: OcrProgress) => void): Promise<ParsedPdf> {
+  return loadPdf(file, { onOcrProgress }).done;
+}
+
+async function renderPage(page: pdfjsLib.PDFPageProxy, scale: number): Promise<HTMLCanvasElement> {
   const viewport = page.getViewport({ scale });
   
   const canvas = document.createElement('canvas');
@@ -74,5 +143,23 @@ export async function renderPageToCanvas(file: File, pageNum: number, scale: num
   canvas.width = viewport.width;
 
   await page.render({ canvasContext: context, viewport, canvas }).promise;
+  return canvas;
+}
+
+// The page view and OCR render page after page of the same file; load each file once.
+const loadedPdfs = new WeakMap<Blob, Promise<pdfjsLib.PDFDocumentProxy>>();
+
+function openPdf(file: Blob): Promise<pdfjsLib.PDFDocumentProxy> {
+  let loading = loadedPdfs.get(file);
+  if (!loading) {
+    loading = file.arrayBuffer().then(data => pdfjsLib.getDocument({ data }).promise);
+    loadedPdfs.set(file, loading);
+    loading.catch(() => loadedPdfs.delete(file));
+  }
+  return loading;
+}
+
+export async function renderPageToCanvas(file: Blob, pageNum: number, scale: number = 2.0): Promise<string> {
+  const canvas = await renderPage(await (await openPdf(file)).getPage(pageNum), scale);
   return canvas.toDataURL('image/jpeg', 0.8);
-}
\ No newline at end of file
+}
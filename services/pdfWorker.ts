@@ -0,0 +1,62 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import * as pdfjsWorkerModule from 'pdfjs-dist/build/pdf.worker.mjs';
+import { OutlineEntry, PageContent, TextItem } from '../types';
+import { analyzePdf } from './pdfExtraction';
+
+/**
+ * Parses a PDF off the main thread. The document stays open while its pages are
+ * extracted and analyzed, and analyzed pages are posted back as they are ready.
+ * Scanned pages are handed to the page for OCR and analyzed once their text comes
+ * back. Terminating the worker cancels parsing.
+ */
+
+export type PdfWorkerRequest =
+  | { type: 'open'; data: ArrayBuffer }
+  | { type: 'recognized'; pageNumber: number; items: TextItem[] };
+
+export type PdfWorkerMessage =
+  | { type: 'opened'; pageCount: number }
+  | { type: 'scanned'; pageNumber: number }
+  | { type: 'pages'; pages: PageContent[] }
+  | { type: 'done'; outline: OutlineEntry[] }
+  | { type: 'error'; name: string; message: string };
+
+// With this global set, pdf.js parses in this thread instead of starting a nested worker.
+globalThis.pdfjsWorker = pdfjsWorkerModule;
+
+// Scanned pages waiting for their OCR text, by page number.
+const awaitingOcr = new Map<number, (items: TextItem[]) => void>();
+
+function post(message: PdfWorkerMessage) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<PdfWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'open') {
+    parse(request.data).catch(error => post({
+      type: 'error',
+      name: error?.name || 'Error',
+      message: error?.message || String(error)
+    }));
+  } else if (request.type === 'recognized') {
+    awaitingOcr.get(request.pageNumber)?.(request.items);
+    awaitingOcr.delete(request.pageNumber);
+  }
+};
+
+async function parse(data: ArrayBuffer) {
+  const pdf = await pdfjsLib.getDocument({ data, disableAutoFetch: true, disableStream: true }).promise;
+  post({ type: 'opened', pageCount: pdf.numPages });
+
+  const { outline } = await analyzePdf(pdf, {
+    recognize: (pageNumber) => new Promise(resolve => {
+      awaitingOcr.set(pageNumber, resolve);
+      post({ type: 'scanned', pageNumber });
+    }),
+    onPages: (pages) => post({ type: 'pages', pages })
+  });
+
+  post({ type: 'done', outline });
+  await pdf.destroy();
+}
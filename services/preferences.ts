@@ -0,0 +1,43 @@
+import { DEFAULT_NORMALIZATION_RULES, NormalizationRules } from '../utils/textNormalizer';
+import { MathVerbosity } from '../utils/mathSpeech';
+
+/**
+ * User preferences persisted in localStorage.
+ */
+
+const PREFERENCES_KEY = 'omnivoice.preferences';
+
+export interface Preferences {
+  /** Read running heads, footers and page numbers aloud instead of skipping them. */
+  readFurniture: boolean;
+  /** Which rule-based expansions run before synthesis. */
+  normalization: NormalizationRules;
+  /** How much structure math blocks announce (fraction, exponent and matrix boundaries). */
+  mathVerbosity: MathVerbosity;
+  /** Send PDF and image pages through AI cleanup; otherwise the layout engine's blocks are read as-is. */
+  aiCleanup: boolean;
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  readFurniture: false,
+  normalization: DEFAULT_NORMALIZATION_RULES,
+  mathVerbosity: 'standard',
+  aiCleanup: true
+};
+
+export function loadPreferences(): Preferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFERENCES_KEY) || '{}');
+    return {
+      ...DEFAULT_PREFERENCES,
+      ...stored,
+      normalization: { ...DEFAULT_NORMALIZATION_RULES, ...stored.normalization }
+    };
+  } catch {
+    return { ...DEFAULT_PREFERENCES };
+  }
+}
+
+export function savePreferences(preferences: Preferences): void {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+}
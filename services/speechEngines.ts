@@ -0,0 +1,118 @@
+import { NativeSpeechEngine, PcmSpeechEngine, SpeechEngine, SpeechEngineId, VoiceOption } from '../types';
+import { generateSpeech, isTransientError } from './geminiService';
+import { audioCacheKey, getCachedAudio, putCachedAudio } from './cacheService';
+
+// Prebuilt voices offered by the Gemini TTS models.
+const GEMINI_VOICES = [
+  'Kore', 'Puck', 'Zephyr', 'Charon', 'Fenrir', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe',
+  'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome', 'Algenib', 'Rasalgethi',
+  'Laomedeia', 'Achernar', 'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird',
+  'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat'
+];
+
+export const geminiEngine: PcmSpeechEngine = {
+  id: 'gemini',
+  kind: 'pcm',
+  label: 'Gemini',
+  model: 'gemini-2.5-flash-preview-tts',
+  capabilities: { sampleRate: 24000, ssml: false, wordTimings: false, multiSpeaker: true },
+  isAvailable: () => typeof navigator === 'undefined' || navigator.onLine,
+  getVoices: async () => GEMINI_VOICES.map(v => ({ id: v, label: v })),
+  synthesize: async (text, voice, signal, speakers) => {
+    const key = await audioCacheKey({
+      text,
+      voice: speakers ? speakers.map(s => `${s.speaker}=${s.voice}`).join(',') : voice,
+      engine: 'gemini',
+      model: geminiEngine.model,
+      sampleRate: 24000
+    });
+    const cached = await getCachedAudio(key);
+    if (cached) return cached;
+
+    const bytes = await generateSpeech(text, voice, signal, speakers);
+    putCachedAudio(key, bytes).catch(e => console.warn('Audio cache write failed', e));
+    return bytes;
+  }
+};
+
+/**
+ * speechSynthesis populates its voice list asynchronously in Chrome, so wait for
+ * the first `voiceschanged` event (bounded, since Safari never fires it).
+ */
+function loadBrowserVoices(): Promise<SpeechSynthesisVoice[]> {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const done = () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', done);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    window.speechSynthesis.addEventListener('voiceschanged', done);
+    setTimeout(done, 1500);
+  });
+}
+
+export const webSpeechEngine: NativeSpeechEngine = {
+  id: 'web-speech',
+  kind: 'native',
+  label: 'Offline',
+  model: 'speechSynthesis',
+  capabilities: { sampleRate: null, ssml: false, wordTimings: true, multiSpeaker: false },
+  isAvailable: () => typeof window !== 'undefined' && 'speechSynthesis' in window,
+  getVoices: async (): Promise<VoiceOption[]> => {
+    const voices = await loadBrowserVoices();
+    return voices.map(v => ({ id: v.voiceURI, label: v.name, lang: v.lang }));
+  },
+  speak: async (text, { voice, rate, pitch, volume, onBoundary }) => {
+    const voices = await loadBrowserVoices();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.voice = voices.find(v => v.voiceURI === voice) || null;
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+    utterance.volume = volume;
+    if (onBoundary) {
+      utterance.onboundary = (e) => {
+        if (e.name === 'word') onBoundary(e.charIndex);
+      };
+    }
+
+    return new Promise((resolve, reject) => {
+      utterance.onend = () => resolve();
+      utterance.onerror = (e) => {
+        // Cancelling playback surfaces as an error event; treat it as a normal stop.
+        if (e.error === 'interrupted' || e.error === 'canceled') resolve();
+        else reject(new Error(`Speech synthesis failed: ${e.error}`));
+      };
+      window.speechSynthesis.speak(utterance);
+    });
+  },
+  cancel: () => {
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+      // A paused synthesizer stays paused after cancel and would hold the next utterance.
+      window.speechSynthesis.resume();
+    }
+  },
+  pause: () => {
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) window.speechSynthesis.pause();
+  },
+  resume: () => {
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) window.speechSynthesis.resume();
+  }
+};
+
+export const SPEECH_ENGINES: SpeechEngine[] = [geminiEngine, webSpeechEngine];
+
+export function getSpeechEngine(id: SpeechEngineId): SpeechEngine {
+  return SPEECH_ENGINES.find(e => e.id === id) || geminiEngine;
+}
+
+/**
+ * True when a synthesis failure means the remote engine is unreachable or out of
+ * quota, in which case playback should move to the offline engine. Such failures
+ * have already been retried by the time they get here.
+ */
+export function shouldFallBack(error: unknown): boolean {
+  return isTransientError(error);
+}
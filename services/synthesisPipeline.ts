@@ -0,0 +1,191 @@
+import { BlockType, DocumentData, PageContent } from '../types';
+import { splitIntoChunks } from '../utils/textChunker';
+import { tokenizeWords } from '../utils/wordTimings';
+import { describeRow, rowText } from '../utils/tableSpeech';
+
+export interface SpeechChunk {
+  pageIndex: number;
+  blockIndex: number;
+  chunkIndex: number;
+  /** Index of the chunk's first word within its (whitespace-normalized) block. */
+  wordOffset: number;
+  text: string;
+  /** What is synthesized, when it differs from `text`: a table row read with its column headings. */
+  spoken?: string;
+  blockType: BlockType;
+  /** Whether this is the final chunk of its block (where block-level pauses go). */
+  isLastInBlock: boolean;
+}
+
+export interface ReadingPosition {
+  page: number;
+  block: number;
+  chunk?: number;
+  /** Start mid-block at this word; takes precedence over `chunk`. */
+  word?: number;
+}
+
+/** `prepareBlocks` failed for a page, so none of its blocks can be read. */
+export class PagePreparationError extends Error {
+  constructor(public pageIndex: number, public cause: unknown) {
+    super(cause instanceof Error ? cause.message : `Page ${pageIndex + 1} could not be prepared`);
+    this.name = 'PagePreparationError';
+  }
+}
+
+/** A chunk paired with its synthesis outcome; failures are reported per chunk so callers can skip or retry it. */
+export interface SynthesizedChunk<T> {
+  chunk: SpeechChunk;
+  ok: boolean;
+  result?: T;
+  error?: unknown;
+}
+
+export interface SynthesisPipeline<T> {
+  /** Resolves with the next chunk in reading order, or null once the source is exhausted. */
+  next(): Promise<SynthesizedChunk<T> | null>;
+  /** Abort every in-flight request and drop queued results. */
+  cancel(): void;
+}
+
+/**
+ * Walk a document from `start` in reading order, yielding speakable chunks.
+ * `prepareBlocks` runs before each page is read and returns straight away when the page is ready.
+ * When `start.word` is set, the first chunk is trimmed to begin at that word.
+ * Page furniture (running heads, footers, page numbers) is skipped unless `includeFurniture`.
+ * Tables with known rows and cells are read a row at a time, each row from its start.
+ * A failing `prepareBlocks` ends the walk with a `PagePreparationError`; `signal` is passed on to it.
+ * While a document is still loading, `pageAt` supplies the pages past the end of `doc.pages`,
+ * waiting for each one; the walk ends when it resolves with undefined.
+ */
+export async function* iterateChunks(
+  doc: DocumentData,
+  start: ReadingPosition,
+  prepareBlocks: (page: PageContent, pageIndex: number, signal?: AbortSignal) => Promise<void>,
+  options: { includeFurniture?: boolean; signal?: AbortSignal; pageAt?: (pageIndex: number) => Promise<PageContent | undefined> } = {}
+): AsyncGenerator<SpeechChunk> {
+  let bIdx = start.block;
+  let cIdx = start.chunk || 0;
+  let startWord = start.word;
+
+  for (let pIdx = start.page; ; pIdx++) {
+    const page = doc.pages[pIdx] ?? await options.pageAt?.(pIdx);
+    if (!page) break;
+    try {
+      await prepareBlocks(page, pIdx, options.signal);
+    } catch (err) {
+      throw new PagePreparationError(pIdx, err);
+    }
+
+    for (; bIdx < (page.blocks?.length || 0); bIdx++) {
+      if (page.blocks[bIdx].furniture && !options.includeFurniture) {
+        cIdx = 0;
+        startWord = undefined;
+        continue;
+      }
+      const block = page.blocks[bIdx];
+      const blockType = block.type;
+      // Formulas stay whole: sentence splitting would cut LaTeX apart.
+      const chunks = block.table ? block.table.rows.map(rowText)
+        : blockType === 'math' ? [block.content]
+        : splitIntoChunks(block.content);
+      const spoken = block.table?.rows.map((_, row) => describeRow(block.table!, row));
+      const wordCounts = chunks.map(c => tokenizeWords(c).length);
+      let wordOffset = 0;
+
+      for (let i = 0; i < chunks.length; i++) {
+        const words = wordCounts[i];
+
+        if (startWord !== undefined) {
+          if (startWord >= wordOffset + words && i < chunks.length - 1) {
+            wordOffset += words;
+            continue;
+          }
+          const first = spoken ? undefined : tokenizeWords(chunks[i])[Math.max(0, Math.min(words - 1, startWord - wordOffset))];
+          const skipped = first ? tokenizeWords(chunks[i].slice(0, first.start)).length : 0;
+          yield {
+            pageIndex: pIdx, blockIndex: bIdx, chunkIndex: i, wordOffset: wordOffset + skipped,
+            text: chunks[i].slice(first?.start || 0), ...(spoken ? { spoken: spoken[i] } : {}),
+            blockType, isLastInBlock: i === chunks.length - 1
+          };
+          startWord = undefined;
+        } else if (i >= cIdx) {
+          yield {
+            pageIndex: pIdx, blockIndex: bIdx, chunkIndex: i, wordOffset,
+            text: chunks[i], ...(spoken ? { spoken: spoken[i] } : {}),
+            blockType, isLastInBlock: i === chunks.length - 1
+          };
+        }
+        wordOffset += words;
+      }
+      cIdx = 0;
+      startWord = undefined;
+    }
+    bIdx = 0;
+  }
+}
+
+/**
+ * Synthesize up to `lookAhead` chunks ahead of the one currently being consumed,
+ * so the next clip is usually ready before the current one finishes playing.
+ * At most `lookAhead` requests are in flight at once.
+ */
+export function createSynthesisPipeline<T>(
+  source: AsyncIterator<SpeechChunk>,
+  synthesize: (chunk: SpeechChunk, signal: AbortSignal) => Promise<T>,
+  lookAhead: number = 3
+): SynthesisPipeline<T> {
+  const controller = new AbortController();
+  const queue: { chunk: SpeechChunk; result: Promise<T> }[] = [];
+  let exhausted = false;
+  let sourceError: unknown = null;
+  let filling: Promise<void> | null = null;
+
+  const fill = (): Promise<void> => {
+    if (filling) return filling;
+    filling = (async () => {
+      try {
+        while (!exhausted && !controller.signal.aborted && queue.length < lookAhead) {
+          const { value, done } = await source.next();
+          if (done || controller.signal.aborted) {
+            exhausted = true;
+            break;
+          }
+          const result = synthesize(value, controller.signal);
+          // Failures surface when the chunk is consumed; avoid unhandled rejections until then.
+          result.catch(() => {});
+          queue.push({ chunk: value, result });
+        }
+      } catch (err) {
+        exhausted = true;
+        sourceError = err;
+      }
+    })().finally(() => { filling = null; });
+    return filling;
+  };
+
+  return {
+    async next() {
+      if (queue.length === 0) await fill();
+      const head = queue.shift();
+      if (!head) {
+        if (sourceError) throw sourceError;
+        return null;
+      }
+      try {
+        return { chunk: head.chunk, ok: true, result: await head.result };
+      } catch (error) {
+        return { chunk: head.chunk, ok: false, error };
+      } finally {
+        // Refill only once the head settles so no more than `lookAhead` requests are ever in flight.
+        fill();
+      }
+    },
+    cancel() {
+      controller.abort();
+      queue.length = 0;
+      exhausted = true;
+      source.return?.(undefined);
+    }
+  };
+}
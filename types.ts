@@ -1,4 +1,5 @@
 
+/** Top-left origin, in page units at scale 1. */
 export interface BoundingBox {
   x: number;
   y: number;
@@ -11,21 +12,68 @@ export interface TextItem {
   box: BoundingBox;
   fontSize: number;
   fontName: string;
+  /** Recognition confidence (0-1); only set on text that came from OCR. */
+  confidence?: number;
+}
+
+/** A whitespace-separated area of a page (column, paragraph, sidebar...), items in reading order. */
+export interface LayoutRegion {
+  box: BoundingBox;
+  items: TextItem[];
+  /** Set when the region's items line up in rows and columns. */
+  table?: TableGrid;
+}
+
+/** Items that belong to one block, before the block is typed. */
+export interface TextCluster {
+  text: string;
+  items: TextItem[];
+  box: BoundingBox;
+  table?: TableGrid;
 }
 
 export interface PageContent {
   pageNumber: number;
   blocks: TextBlock[];
   rawText: string;
+  /**
+   * Set once the page has been through AI cleanup: 'ai' when the model's blocks replaced the
+   * layout engine's, 'layout' when its response was rejected and the original blocks were kept.
+   */
+  cleanup?: 'ai' | 'layout';
+  /** Page size in page units at scale 1, the space block boxes are in; laid-out pages only. */
+  width?: number;
+  height?: number;
+}
+
+export type BlockType = 'paragraph' | 'heading' | 'list' | 'table' | 'sidebar' | 'math' | 'chart-desc';
+
+/** Cells of a table, row by row. Every row has one cell per column; rows with no text are left out. */
+export interface TableGrid {
+  rows: string[][];
+  /** The first row holds the column headings. */
+  header: boolean;
 }
 
+/** Page furniture: running heads, footers and folios repeated across pages. */
+export type FurnitureKind = 'header' | 'footer' | 'page-number';
+
 export interface TextBlock {
-  type: 'paragraph' | 'heading' | 'list' | 'table' | 'sidebar' | 'math' | 'chart-desc';
+  type: BlockType;
   content: string;
   order: number;
   confidence: number;
+  /** Set when the block is page furniture; such blocks are skipped during playback by default. */
+  furniture?: FurnitureKind;
+  /** Where the block sits on the rendered page (PDF and image pages). */
+  box?: BoundingBox;
+  /** Rows and cells of a table block, when its structure is known; `content` has one line per row. */
+  table?: TableGrid;
 }
 
+/** A block as returned by the layout model, before it is ordered and scored. */
+export type LayoutBlock = Pick<TextBlock, 'type' | 'content'>;
+
 export interface TTSState {
   isPlaying: boolean;
   currentPage: number;
@@ -34,12 +82,100 @@ export interface TTSState {
   pitch: number;
   voice: string;
   volume: number;
+  engine: SpeechEngineId;
+  /** Playback is held mid-chunk and resumes where it stopped. */
+  isPaused: boolean;
+}
+
+export type DocumentType = 'pdf' | 'image' | 'text' | 'epub' | 'docx' | 'html' | 'markdown';
+
+/** A table-of-contents entry pointing at the block where its section starts. */
+export interface OutlineEntry {
+  title: string;
+  /** Nesting depth, 0 for top-level entries. */
+  level: number;
+  page: number;
+  block: number;
 }
 
 export interface DocumentData {
   id: string;
   name: string;
-  type: 'pdf' | 'image' | 'text';
+  type: DocumentType;
   pages: PageContent[];
   totalBlocks: number;
+  /** Outline embedded in the file, when it has one. */
+  outline?: OutlineEntry[];
+  /** Voices chosen for this document, per engine since voice ids are engine-specific. */
+  voiceCasting?: Partial<Record<SpeechEngineId, VoiceCasting>>;
+}
+
+/** Kinds of text that can be given their own voice. */
+export type VoiceRole = 'body' | 'heading' | 'quote' | 'caption';
+
+/** Voice id per role; missing roles use the voice selected for playback. */
+export type VoiceCasting = Partial<Record<VoiceRole, string>>;
+
+/** One named speaker of a multi-speaker transcript. */
+export interface SpeakerVoice {
+  speaker: string;
+  voice: string;
+}
+
+export type SpeechEngineId = 'gemini' | 'web-speech';
+
+export interface VoiceOption {
+  id: string;
+  label: string;
+  lang?: string;
 }
+
+export interface SpeechEngineCapabilities {
+  /** Sample rate of returned PCM, or null when the engine plays audio itself. */
+  sampleRate: number | null;
+  ssml: boolean;
+  wordTimings: boolean;
+  /** Can read a two-speaker transcript with a voice per speaker. */
+  multiSpeaker: boolean;
+}
+
+export interface SpeakOptions {
+  voice: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+  /** Called with the character offset of each word as the engine reaches it. */
+  onBoundary?: (charIndex: number) => void;
+}
+
+interface BaseSpeechEngine {
+  id: SpeechEngineId;
+  label: string;
+  /** Underlying model or API, part of the audio cache key. */
+  model: string;
+  capabilities: SpeechEngineCapabilities;
+  isAvailable(): boolean;
+  getVoices(): Promise<VoiceOption[]>;
+}
+
+/** Engines that return raw 16-bit mono PCM for the app to schedule on its AudioContext. */
+export interface PcmSpeechEngine extends BaseSpeechEngine {
+  kind: 'pcm';
+  /**
+   * With `speakers`, `text` is a transcript whose lines start with a speaker name and each
+   * speaker is read with their own voice; engines without multi-speaker support ignore them.
+   */
+  synthesize(text: string, voice: string, signal?: AbortSignal, speakers?: SpeakerVoice[]): Promise<Uint8Array>;
+}
+
+/** Engines that play through the browser themselves and resolve once speech has finished. */
+export interface NativeSpeechEngine extends BaseSpeechEngine {
+  kind: 'native';
+  speak(text: string, options: SpeakOptions): Promise<void>;
+  cancel(): void;
+  /** Hold the current utterance; `speak` stays pending until `resume`. */
+  pause(): void;
+  resume(): void;
+}
+
+export type SpeechEngine = PcmSpeechEngine | NativeSpeechEngine;
@@ -0,0 +1,104 @@
+import { BlockType, OutlineEntry, PageContent, TableGrid } from '../types';
+import { rowText } from './tableSpeech';
+
+/**
+ * Shared output stage for structured formats (EPUB, DOCX, HTML, Markdown): their
+ * parsers emit typed blocks, and this turns them into pages and an outline.
+ */
+
+export interface StructuredBlock {
+  type: BlockType;
+  content: string;
+  /** Heading level, 1 for the top level. */
+  level?: number;
+  table?: TableGrid;
+}
+
+export interface ParsedDocument {
+  pages: PageContent[];
+  outline: OutlineEntry[];
+}
+
+export const NESTED_ITEM_PREFIX = '– ';
+
+/**
+ * One line per item with an explicit marker, the shape the list reader and view expect.
+ * Nested items (prefixed with a dash by the parsers) keep their dash and are not numbered.
+ */
+export function formatList(items: string[], ordered: boolean): string {
+  let n = 0;
+  return items.map(item => item.startsWith(NESTED_ITEM_PREFIX) ? item : `${ordered ? `${++n}.` : '•'} ${item}`).join('\n');
+}
+
+/**
+ * Rows on separate lines, cells separated by commas.
+ */
+export function formatTable(rows: string[][]): string {
+  return rows.map(rowText).filter(Boolean).join('\n');
+}
+
+/**
+ * A table block from parsed rows, or null when no cell has text. Empty rows are dropped and
+ * short rows padded, so each row of the grid is one line of the content.
+ */
+export function tableBlock(rows: string[][], header: boolean): StructuredBlock | null {
+  const filled = rows.filter(cells => cells.some(Boolean));
+  if (filled.length === 0) return null;
+  const width = Math.max(...filled.map(cells => cells.length));
+  const grid = filled.map(cells => [...cells, ...Array<string>(width - cells.length).fill('')]);
+  return { type: 'table', content: formatTable(grid), table: { rows: grid, header } };
+}
+
+export function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split a flat block stream into chapters at the highest heading level that
+ * occurs more than once (so a lone title does not become its own chapter).
+ */
+export function splitChapters(blocks: StructuredBlock[]): StructuredBlock[][] {
+  const levels = blocks.filter(b => b.type === 'heading' && b.level).map(b => b.level!);
+  const chapterLevel = [...new Set(levels)].sort((a, b) => a - b).find(l => levels.filter(x => x === l).length > 1);
+  if (chapterLevel === undefined) return [blocks];
+
+  const chapters: StructuredBlock[][] = [[]];
+  blocks.forEach(block => {
+    const current = chapters[chapters.length - 1];
+    const breaks = block.type === 'heading' && block.level !== undefined && block.level <= chapterLevel;
+    if (breaks && current.some(b => b.type !== 'heading')) chapters.push([]);
+    chapters[chapters.length - 1].push(block);
+  });
+  return chapters;
+}
+
+/**
+ * Build pages (one per chapter) and an outline from the headings' levels.
+ */
+export function toParsedDocument(chapters: StructuredBlock[][]): ParsedDocument {
+  const nonEmpty = chapters.map(c => c.filter(b => b.content.trim())).filter(c => c.length > 0);
+  const outline: OutlineEntry[] = [];
+  const minLevel = Math.min(...nonEmpty.flat().map(b => b.level ?? Infinity));
+
+  const pages = nonEmpty.map((chapter, pageIdx) => {
+    chapter.forEach((block, blockIdx) => {
+      if (block.type === 'heading') {
+        const level = block.level !== undefined && Number.isFinite(minLevel) ? block.level - minLevel : 0;
+        outline.push({ title: collapseWhitespace(block.content), level, page: pageIdx, block: blockIdx });
+      }
+    });
+    return {
+      pageNumber: pageIdx + 1,
+      blocks: chapter.map((block, order) => ({
+        type: block.type,
+        content: block.content,
+        order,
+        confidence: 1.0,
+        ...(block.table ? { table: block.table } : {})
+      })),
+      rawText: chapter.map(b => b.content).join('\n')
+    };
+  });
+
+  return { pages, outline };
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { TextItem } from '../types';
+import { detectFurniture, detectRegions, determineReadingOrder, PageClusters } from './layoutEngine';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const LINE_PITCH = 14;
+// Helvetica-ish advance: half the font size per character.
+const CHAR_WIDTH = 0.5;
+
+function item(text: string, x: number, y: number, fontSize: number = 10, fontName: string = 'Body'): TextItem {
+  return { text, box: { x, y, w: text.length * fontSize * CHAR_WIDTH, h: fontSize }, fontSize, fontName };
+}
+
+/** Lines of running text set in one column, top to bottom. */
+function column(label: string, x: number, top: number, lines: number): TextItem[] {
+  return Array.from({ length: lines }, (_, i) => item(`${label} line ${i + 1} of running text`, x, top + i * LINE_PITCH));
+}
+
+const texts = (items: TextItem[]) => items.map(i => i.text);
+
+// Fixtures list items row by row, the way content streams often interleave columns.
+function interleave(...columns: TextItem[][]): TextItem[] {
+  const rows = Math.max(...columns.map(c => c.length));
+  return Array.from({ length: rows }, (_, i) => columns.map(c => c[i]).filter(Boolean)).flat();
+}
+
+describe('detectRegions', () => {
+  it('reads a one-column page top to bottom, split at paragraph breaks', () => {
+    const title = item('A Single Column Title', 72, 60, 18);
+    const first = column('First paragraph', 72, 100, 5);
+    const second = column('Second paragraph', 72, 100 + 5 * LINE_PITCH + 12, 4);
+
+    const regions = detectRegions([...second, title, ...first], PAGE_WIDTH, PAGE_HEIGHT);
+
+    expect(texts(regions.flatMap(r => r.items))).toEqual(texts([title, ...first, ...second]));
+    expect(regions).toHaveLength(3);
+    expect(regions[1].box.y).toBe(100);
+  });
+
+  it('reads a two-column page column by column under a spanning title', () => {
+    const title = item('A Title That Spans Both Columns Of The Page', 72, 60, 18);
+    const left = column('Left', 72, 100, 12);
+    const right = column('Right', 320, 100, 12);
+
+    const regions = detectRegions([title, ...interleave(left, right)], PAGE_WIDTH, PAGE_HEIGHT);
+
+    expect(texts(regions.flatMap(r => r.items))).toEqual(texts([title, ...left, ...right]));
+    expect(regions.map(r => r.box.x)).toEqual([72, 72, 320]);
+  });
+
+  it('reads a three-column page column by column', () => {
+    const title = item('A Title Over Three Columns', 50, 60, 18);
+    const columns = [50, 230, 410].map((x, i) => column(`Column ${i + 1}`, x, 100, 15));
+
+    const regions = detectRegions([title, ...interleave(...columns)], PAGE_WIDTH, PAGE_HEIGHT);
+
+    expect(texts(regions.flatMap(r => r.items))).toEqual(texts([title, ...columns.flat()]));
+    expect(regions.map(r => r.box.x)).toEqual([50, 50, 230, 410]);
+  });
+
+  it('keeps a sidebar beside two columns as its own region, after the columns to its left', () => {
+    const left = column('Left', 50, 100, 10);
+    const middle = column('Middle', 230, 100, 10);
+    const sidebar = Array.from({ length: 4 }, (_, i) => item(`Sidebar note ${i + 1}`, 440, 120 + i * 12, 8));
+
+    const regions = detectRegions(interleave(left, middle, sidebar), PAGE_WIDTH, PAGE_HEIGHT);
+
+    expect(texts(regions.flatMap(r => r.items))).toEqual(texts([...left, ...middle, ...sidebar]));
+    expect(regions[regions.length - 1].box).toEqual({ x: 440, y: 120, w: 56, h: 44 });
+  });
+
+  it('returns no regions for a page without visible text', () => {
+    expect(detectRegions([item('   ', 72, 72)], PAGE_WIDTH, PAGE_HEIGHT)).toEqual([]);
+  });
+});
+
+describe('determineReadingOrder', () => {
+  it('does not interleave lines of two columns that share baselines', () => {
+    const left = column('Left', 72, 100, 6);
+    const right = column('Right', 320, 100, 6);
+
+    expect(texts(determineReadingOrder(interleave(left, right), PAGE_WIDTH, PAGE_HEIGHT))).toEqual(texts([...left, ...right]));
+  });
+});
+
+describe('table detection', () => {
+  // Cells of a grid, one line per row; `columns` gives each column's left edge.
+  function grid(rows: string[][], columns: number[], top: number, headingFont?: string): TextItem[] {
+    return rows.flatMap((cells, r) => cells.map((cell, c) => item(cell, columns[c], top + r * 16, 10, r === 0 && headingFont ? headingFont : 'Body')));
+  }
+
+  it('reads three columns of short aligned lines as columns, not as a table', () => {
+    const columns = [50, 230, 410].map((x, c) =>
+      Array.from({ length: 20 }, (_, i) => item(`Brief line ${c * 20 + i + 1} here`, x, 100 + i * LINE_PITCH))
+    );
+
+    const regions = detectRegions(interleave(...columns), PAGE_WIDTH, PAGE_HEIGHT);
+
+    expect(regions.some(r => r.table)).toBe(false);
+    expect(texts(regions.flatMap(r => r.items))).toEqual(texts(columns.flat()));
+  });
+
+  it('keeps a full-width table of figures whole, with its heading row', () => {
+    const rows = [['Quarter', 'Revenue', 'Margin'], ['Q1', '3.2 million', '11%'], ['Q2', '4.1 million', '12%'], ['Q3', '4.4 million', '13%']];
+
+    const regions = detectRegions(grid(rows, [72, 260, 450], 100, 'Bold'), PAGE_WIDTH, PAGE_HEIGHT);
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0].table).toEqual({ rows, header: true });
+  });
+
+  it('takes words above columns of figures as the heading row', () => {
+    const rows = [['Region', 'Units', 'Share'], ['North', '1,204', '31%'], ['South', '988', '26%']];
+
+    const regions = detectRegions(grid(rows, [72, 200, 320], 100), PAGE_WIDTH, PAGE_HEIGHT);
+
+    expect(regions[0].table?.header).toBe(true);
+  });
+
+  it('reads a full-width grid of words without a heading row as columns', () => {
+    const rows = [['Apples', 'Red', 'Sweet'], ['Lemons', 'Yellow', 'Sour'], ['Limes', 'Green', 'Sour']];
+
+    expect(detectRegions(grid(rows, [72, 260, 450], 100), PAGE_WIDTH, PAGE_HEIGHT).some(r => r.table)).toBe(false);
+  });
+
+  it('does not take a column of bullets beside their items for a table', () => {
+    const bullets = Array.from({ length: 4 }, (_, i) => [item('•', 72, 100 + i * 16), item(`Item ${i + 1}`, 100, 100 + i * 16)]).flat();
+
+    expect(detectRegions(bullets, PAGE_WIDTH, PAGE_HEIGHT).some(r => r.table)).toBe(false);
+  });
+});
+
+describe('detectFurniture', () => {
+  /** A page of one-line clusters, each given as its text and top edge. */
+  function page(...lines: [string, number][]): PageClusters {
+    const clusters = lines.map(([text, y]) => {
+      const items = [item(text, 72, y)];
+      return { text, items, box: items[0].box };
+    });
+    return { clusters, width: PAGE_WIDTH, height: PAGE_HEIGHT };
+  }
+  const HEAD = 30;
+  const BODY = 300;
+  const FOOT = 750;
+
+  it('tags each chapter\'s running head in a book of many short chapters', () => {
+    const chapters = ['The Harbour', 'Night Crossing', 'Salt Marsh', 'The Lighthouse', 'Coming Home'];
+    // Each chapter opens on a page without a running head.
+    const pages = chapters.flatMap(title => Array.from({ length: 8 }, (_, i) =>
+      i === 0 ? page([title, BODY]) : page([title, HEAD], ['Body text of the chapter', BODY])
+    ));
+
+    const furniture = detectFurniture(pages);
+    pages.forEach((p, pIdx) => p.clusters.forEach((cluster, cIdx) =>
+      expect(furniture[pIdx][cIdx], `page ${pIdx + 1}: ${cluster.text}`).toBe(cluster.box.y === HEAD ? 'header' : null)
+    ));
+  });
+
+  it('does not tag text that recurs in the margin only on pages far apart', () => {
+    const pages = Array.from({ length: 30 }, (_, i) =>
+      i % 10 === 0 ? page(['Part Opening', HEAD], ['Body text', BODY]) : page(['Body text', BODY])
+    );
+
+    expect(detectFurniture(pages)[0][0]).toBeNull();
+  });
+
+  it('takes roman numerals in the margin for page numbers, but not words spelled with their letters', () => {
+    const folio = (text: string) => detectFurniture([page(['Body text', BODY], [text, FOOT])])[0][1];
+
+    expect(['xiv', 'iv', 'xcix', 'Page ix'].map(folio)).toEqual(Array(4).fill('page-number'));
+    expect(['civil', 'mild', 'dim', 'mix', 'did'].map(folio)).toEqual(Array(5).fill(null));
+  });
+});
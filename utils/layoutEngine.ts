@@ -1,59 +1,595 @@
+import { TextItem, BoundingBox, LayoutRegion, TextCluster, BlockType, FurnitureKind, PageContent, LayoutBlock, TextBlock, TableGrid } from '../types';
+import { formatTable } from './documentBlocks';
 
-import { TextItem, BoundingBox } from '../types';
+interface Gap {
+  start: number;
+  end: number;
+}
+
+interface CutThresholds {
+  /** Minimum empty vertical strip (gutter) that separates columns. */
+  column: number;
+  /** Minimum empty horizontal strip that separates regions stacked vertically. */
+  row: number;
+  /** Regions at least this wide span the page, and need firmer evidence to read as a table. */
+  wide: number;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function boundsOf(items: TextItem[]): BoundingBox {
+  return unionBoxes(items.map(i => i.box));
+}
+
+function unionBoxes(boxes: BoundingBox[]): BoundingBox {
+  const x0 = Math.min(...boxes.map(b => b.x));
+  const y0 = Math.min(...boxes.map(b => b.y));
+  const x1 = Math.max(...boxes.map(b => b.x + b.w));
+  const y1 = Math.max(...boxes.map(b => b.y + b.h));
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+}
 
 /**
- * Group text items into visual blocks based on proximity and font size.
+ * Interior gaps of at least `minGap` in the union of 1-D intervals.
  */
-export function clusterTextItems(items: TextItem[], pageWidth: number, pageHeight: number): string[] {
-  if (items.length === 0) return [];
+function findGaps(intervals: [number, number][], minGap: number): Gap[] {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const gaps: Gap[] = [];
+  let reach = sorted[0][1];
 
-  // Sort by Y coordinate first
-  const sortedItems = [...items].sort((a, b) => a.box.y - b.box.y || a.box.x - b.box.x);
-  
-  const blocks: string[][] = [];
-  let currentBlock: string[] = [];
-  let lastBox: BoundingBox | null = null;
+  for (let i = 1; i < sorted.length; i++) {
+    const [start, end] = sorted[i];
+    if (start - reach >= minGap) gaps.push({ start: reach, end: start });
+    reach = Math.max(reach, end);
+  }
+  return gaps;
+}
+
+function splitAt<T>(items: T[], key: (item: T) => number, gaps: Gap[]): T[][] {
+  const groups: T[][] = Array.from({ length: gaps.length + 1 }, () => []);
+  items.forEach(item => {
+    const pos = key(item);
+    let idx = 0;
+    while (idx < gaps.length && pos >= gaps[idx].end) idx++;
+    groups[idx].push(item);
+  });
+  return groups.filter(g => g.length > 0);
+}
+
+/**
+ * Group items into visual lines (vertical overlap), top to bottom, each left to right.
+ */
+export function groupLines(items: TextItem[]): TextItem[][] {
+  const sorted = [...items].sort((a, b) => a.box.y - b.box.y || a.box.x - b.box.x);
+  const lines: TextItem[][] = [];
+  let lineTop = 0;
+  let lineBottom = 0;
 
-  const Y_THRESHOLD = 15; // Vertical distance threshold
-  const X_THRESHOLD = pageWidth * 0.15; // Horizontal gap threshold (multi-column)
+  sorted.forEach(item => {
+    const top = item.box.y;
+    const bottom = item.box.y + item.box.h;
+    const current = lines[lines.length - 1];
+    const overlap = current ? Math.min(bottom, lineBottom) - Math.max(top, lineTop) : 0;
 
-  sortedItems.forEach((item) => {
-    if (!lastBox) {
-      currentBlock.push(item.text);
-      lastBox = item.box;
+    if (current && overlap > Math.min(item.box.h, lineBottom - lineTop) * 0.5) {
+      current.push(item);
+      lineTop = Math.min(lineTop, top);
+      lineBottom = Math.max(lineBottom, bottom);
+    } else {
+      lines.push([item]);
+      lineTop = top;
+      lineBottom = bottom;
+    }
+  });
+
+  return lines.map(line => line.sort((a, b) => a.box.x - b.box.x));
+}
+
+// A grid longer than this is a page of columns, not a table.
+const MAX_TABLE_ROWS = 60;
+// Cells of a table are short; lines of text set in columns are not.
+const MAX_CELL_WORDS = 5;
+// Share of rows that must fill the usual number of cells.
+const MIN_CONSISTENT_ROWS = 0.75;
+// Share of body cells that must be figures for a full-width region without a heading row.
+const MIN_NUMERIC_CELLS = 0.3;
+// Lines of running text fill most of their column, and text columns are about equally wide.
+const TEXT_COLUMN_FILL = 0.75;
+const TEXT_COLUMN_WIDTHS = 1.25;
+const NUMERIC_CELL = /^[-+−(]?[$€£¥]?\d[\d.,:/]*%?\)?(?:\s*(?:million|billion|thousand|bn|m|k))?$/i;
+
+/**
+ * Read a region split by column gutters as a table when the lines make a grid:
+ * most lines fill the same number of cells, the cells are short, and the columns
+ * are not columns of running text (equally wide, each line filling its column).
+ * A region spanning the page is a column layout unless the grid also has a heading
+ * row or is mostly figures, and a column of bullets or enumerators beside its items
+ * is a list.
+ */
+function detectTable(items: TextItem[], columnGaps: Gap[], wide: boolean): TableGrid | null {
+  const lines = groupLines(items);
+  if (lines.length < 2 || lines.length > MAX_TABLE_ROWS) return null;
+
+  const cellItems = lines.map(line => {
+    const cells: TextItem[][] = columnGaps.map(() => []).concat([[]]);
+    line.forEach(item => {
+      let column = 0;
+      while (column < columnGaps.length && item.box.x >= columnGaps[column].end) column++;
+      cells[column].push(item);
+    });
+    return cells;
+  });
+  const rows = cellItems.map(cells => cells.map(cell => cell.map(i => i.text).join(' ').replace(/\s+/g, ' ').trim()));
+
+  // Every row of a grid fills the same cells, bar the odd heading or total.
+  const counts = rows.map(cells => cells.filter(Boolean).length);
+  const usual = dominant(counts.map(n => [n, 1] as [number, number]))!;
+  if (usual < 2 || counts.filter(n => n === usual).length / rows.length < MIN_CONSISTENT_ROWS) return null;
+
+  const filled = rows.flat().filter(Boolean);
+  if (median(filled.map(cell => cell.split(' ').length)) > MAX_CELL_WORDS) return null;
+  const markers = rows.map(cells => cells[0]).filter(Boolean);
+  if (markers.every(cell => BULLET_PATTERN.test(`${cell} `))) return null;
+
+  const bounds = boundsOf(items);
+  const edges = [bounds.x, ...columnGaps.flatMap(g => [g.start, g.end]), bounds.x + bounds.w];
+  const widths = cellItems[0].map((_, c) => edges[2 * c + 1] - edges[2 * c]);
+  const fills = widths.map((width, c) => median(cellItems.filter(cells => cells[c].length > 0).map(cells => boundsOf(cells[c]).w / width)));
+  if (fills.every(fill => fill >= TEXT_COLUMN_FILL) && Math.max(...widths) <= Math.min(...widths) * TEXT_COLUMN_WIDTHS) return null;
+
+  // Headings are set in another font, or are words above columns of figures.
+  const fontOf = (line: TextItem[]) => dominant(line.map(i => [i.fontName, i.text.length] as [string, number]));
+  const bodyFont = dominant(lines.slice(1).map(line => [fontOf(line), 1] as [string | undefined, number]));
+  const hasFigures = (cells: string[]) => cells.some(cell => NUMERIC_CELL.test(cell));
+  const figureRows = rows.slice(1).filter(hasFigures).length;
+  const header = fontOf(lines[0]) !== bodyFont || (!hasFigures(rows[0]) && figureRows > (rows.length - 1) / 2);
+
+  const body = rows.slice(header ? 1 : 0).flat().filter(Boolean);
+  const figures = body.filter(cell => NUMERIC_CELL.test(cell)).length / body.length;
+  if (wide && !header && figures < MIN_NUMERIC_CELLS) return null;
+
+  return { rows, header };
+}
+
+/**
+ * Recursive XY-cut. Column gutters that run the full height of a region are cut
+ * first, so two-column text is never interleaved; otherwise the region is split
+ * at its widest horizontal whitespace band (title/body, paragraphs, figures) and
+ * each half is examined again, letting spanning titles peel off above columns.
+ * A region whose lines make a grid across its gutters is a table and is kept whole.
+ */
+function xyCut(items: TextItem[], thresholds: CutThresholds, out: LayoutRegion[]) {
+  if (items.length > 1) {
+    const columnGaps = findGaps(items.map(i => [i.box.x, i.box.x + i.box.w]), thresholds.column);
+    const box = boundsOf(items);
+    const table = columnGaps.length > 0 ? detectTable(items, columnGaps, box.w >= thresholds.wide) : null;
+    if (table) {
+      out.push({ box, items: groupLines(items).flat(), table });
+      return;
+    }
+    if (columnGaps.length > 0) {
+      splitAt(items, i => i.box.x, columnGaps).forEach(column => xyCut(column, thresholds, out));
       return;
     }
 
-    const verticalGap = Math.abs(item.box.y - lastBox.y);
-    const horizontalGap = Math.abs(item.box.x - (lastBox.x + lastBox.w));
+    const rowGaps = findGaps(items.map(i => [i.box.y, i.box.y + i.box.h]), thresholds.row);
+    if (rowGaps.length > 0) {
+      const widest = rowGaps.reduce((best, g) => (g.end - g.start > best.end - best.start ? g : best));
+      splitAt(items, i => i.box.y, [widest]).forEach(band => xyCut(band, thresholds, out));
+      return;
+    }
+  }
 
-    // If item is far vertically or significantly horizontally separated
-    if (verticalGap > Y_THRESHOLD || horizontalGap > X_THRESHOLD) {
-      blocks.push(currentBlock);
-      currentBlock = [item.text];
-    } else {
-      currentBlock.push(item.text);
+  out.push({ box: boundsOf(items), items: groupLines(items).flat() });
+}
+
+/**
+ * Detect whitespace-separated regions (columns, paragraphs, sidebars, captions)
+ * and return them in reading order with their bounding boxes.
+ */
+export function detectRegions(items: TextItem[], pageWidth: number, pageHeight: number): LayoutRegion[] {
+  const visible = items.filter(i => i.text.trim().length > 0);
+  if (visible.length === 0) return [];
+
+  const lineHeight = median(visible.map(i => i.box.h)) || 10;
+  const thresholds: CutThresholds = {
+    column: Math.max(lineHeight * 1.2, pageWidth * 0.015),
+    row: Math.max(lineHeight * 0.5, pageHeight * 0.004),
+    wide: pageWidth * 0.6
+  };
+
+  const regions: LayoutRegion[] = [];
+  xyCut(visible, thresholds, regions);
+  return regions;
+}
+
+function toCluster(lines: TextItem[][]): TextCluster {
+  const items = lines.flat();
+  return {
+    text: lines.map(line => line.map(it => it.text).join(' ')).join('\n').replace(/[ \t]+/g, ' ').trim(),
+    items,
+    box: boundsOf(items)
+  };
+}
+
+/**
+ * Group text items into visual blocks. Regions are already in reading order;
+ * a region is split further only where line spacing jumps (e.g. an unspaced
+ * heading or paragraph break), and that order is preserved. Cluster text keeps
+ * one line per visual line so list markers stay detectable.
+ */
+export function clusterTextItems(regions: LayoutRegion[]): TextCluster[] {
+  const clusters: TextCluster[] = [];
+
+  regions.forEach(region => {
+    if (region.table) {
+      clusters.push({ text: formatTable(region.table.rows), items: region.items, box: region.box, table: region.table });
+      return;
+    }
+    const lines = groupLines(region.items);
+    const pitches = lines.slice(1).map((line, i) => line[0].box.y - lines[i][0].box.y);
+    const typicalPitch = median(pitches);
+
+    let current: TextItem[][] = [];
+    lines.forEach((line, i) => {
+      const lineFont = median(line.map(it => it.fontSize));
+      const prevFont = i > 0 ? median(lines[i - 1].map(it => it.fontSize)) : lineFont;
+      const pitchJump = i > 0 && typicalPitch > 0 && pitches[i - 1] > typicalPitch * 1.5;
+      const fontJump = Math.abs(lineFont - prevFont) > Math.max(1, prevFont * 0.2);
+
+      if (current.length > 0 && (pitchJump || fontJump)) {
+        clusters.push(toCluster(current));
+        current = [];
+      }
+      current.push(line);
+    });
+
+    if (current.length > 0) clusters.push(toCluster(current));
+  });
+
+  return clusters.filter(c => c.text.length > 0);
+}
+
+export interface FontStats {
+  /** Dominant (body text) font size, weighted by character count. */
+  bodySize: number;
+  bodyFont: string;
+  /** Typical width of body-text blocks. */
+  bodyWidth: number;
+}
+
+function dominant<K>(entries: [K, number][]): K | undefined {
+  const totals = new Map<K, number>();
+  entries.forEach(([key, weight]) => totals.set(key, (totals.get(key) || 0) + weight));
+  let best: K | undefined;
+  let bestWeight = -1;
+  totals.forEach((weight, key) => {
+    if (weight > bestWeight) {
+      best = key;
+      bestWeight = weight;
+    }
+  });
+  return best;
+}
+
+/**
+ * Font statistics across a whole document, used as the baseline for block classification.
+ */
+export function computeFontStats(clusters: TextCluster[]): FontStats {
+  const items = clusters.flatMap(c => c.items);
+  const bodySize = dominant(items.map(i => [Math.round(Math.abs(i.fontSize) * 2) / 2, i.text.length] as [number, number])) || 10;
+  const bodyFont = dominant(items.map(i => [i.fontName, i.text.length] as [string, number])) || '';
+  const bodyWidth = median(clusters.filter(c => c.text.length > 200).map(c => c.box.w)) || Math.max(0, ...clusters.map(c => c.box.w));
+  return { bodySize, bodyFont, bodyWidth };
+}
+
+export interface BlockClassification {
+  type: BlockType;
+  confidence: number;
+}
+
+const BULLET_PATTERN = /^\s*(?:[•◦▪▫‣⁃●○■□►▸–—*-]|\(?\d{1,3}[.)]|\(?[a-zA-Z][.)]|\(?[ivxlcdm]{1,5}[.)])\s+/i;
+const CAPTION_PATTERN = /^(?:fig(?:ure)?\.?|chart|graph|diagram|plate|exhibit)\s*[\dA-Z]+[.:\s]/i;
+const MATH_SYMBOLS = /[=+−×÷±∑∏∫∮√∞≤≥≠≈≡∝∂∇∈∉⊂⊆∪∩∀∃→⇒⇔^_{}|αβγδεζηθλμνξπρστφχψωΓΔΘΛΞΠΣΦΨΩ]/g;
+
+const clamp = (value: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, value));
+
+/**
+ * Assign a block type from font size/name relative to the body text, bullet and
+ * numbering patterns, indentation and symbol density. Confidence reflects how
+ * far the strongest signal is past its threshold.
+ */
+export function classifyCluster(cluster: TextCluster, stats: FontStats, pageWidth: number): BlockClassification {
+  // Tables come out of region detection; the more cells are filled, the surer the grid.
+  if (cluster.table) {
+    const cells = cluster.table.rows.flat();
+    return { type: 'table', confidence: clamp(0.5 + (cells.filter(Boolean).length / cells.length) * 0.4, 0.5, 0.9) };
+  }
+
+  const text = cluster.text;
+  const lines = text.split('\n').filter(l => l.trim());
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const words = flat.split(' ').length;
+  const size = median(cluster.items.map(i => Math.abs(i.fontSize)));
+  const sizeRatio = stats.bodySize > 0 ? size / stats.bodySize : 1;
+  const differentFont = stats.bodyFont !== '' && cluster.items.every(i => i.fontName !== stats.bodyFont);
+
+  // Math: a high share of operators and Greek letters relative to the visible characters.
+  const visibleChars = flat.replace(/\s/g, '').length;
+  const symbolDensity = visibleChars > 0 ? (flat.match(MATH_SYMBOLS) || []).length / visibleChars : 0;
+  if (symbolDensity > 0.12 && visibleChars >= 3) {
+    return { type: 'math', confidence: clamp(0.55 + symbolDensity, 0.55, 0.95) };
+  }
+
+  // Headings: short, larger than body text or set in a distinct font, without sentence punctuation.
+  const short = words <= 18 && lines.length <= 3;
+  const endsLikeSentence = /[.,;:]$/.test(flat);
+  if (short && sizeRatio >= 1.15) {
+    return { type: 'heading', confidence: clamp(0.6 + (sizeRatio - 1.15) * 0.8, 0.6, 0.98) };
+  }
+
+  // Lists: most lines start with a bullet or enumerator; the rest are wrapped continuation lines.
+  const bulletLines = lines.filter(l => BULLET_PATTERN.test(l)).length;
+  const indented = cluster.items.some(i => i.box.x > cluster.box.x + stats.bodySize);
+  if (bulletLines >= 1 && bulletLines / lines.length >= (indented ? 0.3 : 0.5) && (bulletLines > 1 || lines.length === 1)) {
+    return { type: 'list', confidence: clamp(0.6 + (bulletLines / lines.length) * 0.35, 0.6, 0.95) };
+  }
+
+  if (CAPTION_PATTERN.test(flat)) {
+    return { type: 'chart-desc', confidence: 0.85 };
+  }
+
+  if (short && differentFont && !endsLikeSentence && words <= 12) {
+    return { type: 'heading', confidence: 0.6 };
+  }
+
+  // Sidebars: narrow, set smaller than body text, beside the main column.
+  const narrow = stats.bodyWidth > 0 && cluster.box.w < stats.bodyWidth * 0.6 && cluster.box.w < pageWidth * 0.35;
+  if (narrow && sizeRatio < 0.95 && words > 12) {
+    return { type: 'sidebar', confidence: clamp(0.55 + (0.95 - sizeRatio), 0.55, 0.85) };
+  }
+
+  return { type: 'paragraph', confidence: sizeRatio > 0.9 && sizeRatio < 1.1 ? 0.9 : 0.7 };
+}
+
+/**
+ * Reading order logic: items ordered region by region (see `detectRegions`).
+ */
+export function determineReadingOrder(items: TextItem[], pageWidth?: number, pageHeight?: number): TextItem[] {
+  if (items.length === 0) return [];
+  const bounds = boundsOf(items);
+  return detectRegions(items, pageWidth ?? bounds.x + bounds.w, pageHeight ?? bounds.y + bounds.h).flatMap(r => r.items);
+}
+
+export interface PageClusters {
+  clusters: TextCluster[];
+  width: number;
+  height: number;
+}
+
+const MARGIN_ZONE = 0.12;
+const POSITION_TOLERANCE = 0.02;
+// Roman folios are well-formed numerals below 400 (front matter never runs longer), so words made
+// of the same letters ("civil", "did", "mix") are not taken for them.
+const PAGE_NUMBER_PATTERN = /^(?:page\s*)?(?:\d{1,4}|(?=[ivxlc])c{0,3}(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3}))(?:\s*(?:of|\/)\s*\d{1,4})?$|^[-–—]\s*\d{1,4}\s*[-–—]$/i;
+// A running head must recur on this many pages within this many pages either side of it.
+const FURNITURE_REPEATS = 3;
+const FURNITURE_WINDOW = 4;
+
+/**
+ * Text with digits folded, so "Chapter 3 · 41" and "Chapter 3 · 42" compare equal.
+ */
+function furnitureSignature(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find running heads, footers and page numbers: short blocks in the top or bottom
+ * margin whose (digit-insensitive) text repeats at a similar position on enough
+ * nearby pages, so a chapter's running head counts however long the book is.
+ * Returns a furniture kind (or null) for every cluster on every page.
+ */
+export function detectFurniture(pages: PageClusters[]): (FurnitureKind | null)[][] {
+  interface Candidate { page: number; index: number; zone: 'header' | 'footer'; signature: string; y: number; folio: boolean; }
+
+  const candidates: Candidate[] = [];
+  pages.forEach((page, pageIdx) => {
+    page.clusters.forEach((cluster, index) => {
+      const top = cluster.box.y / page.height;
+      const bottom = (cluster.box.y + cluster.box.h) / page.height;
+      const zone = bottom <= MARGIN_ZONE ? 'header' : top >= 1 - MARGIN_ZONE ? 'footer' : null;
+      const words = cluster.text.split(/\s+/).length;
+      if (!zone || words > 15) return;
+
+      const flat = cluster.text.replace(/\s+/g, ' ').trim();
+      candidates.push({
+        page: pageIdx,
+        index,
+        zone,
+        signature: furnitureSignature(flat),
+        y: (top + bottom) / 2,
+        folio: PAGE_NUMBER_PATTERN.test(flat)
+      });
+    });
+  });
+
+  // Short documents may leave one page (a title or chapter opening) without it.
+  const minPages = pages.length <= 2 ? pages.length : Math.min(FURNITURE_REPEATS, pages.length - 1);
+  const result = pages.map(p => p.clusters.map(() => null as FurnitureKind | null));
+
+  candidates.forEach(c => {
+    const similar = candidates.filter(o =>
+      o.zone === c.zone && Math.abs(o.page - c.page) <= FURNITURE_WINDOW && Math.abs(o.y - c.y) <= POSITION_TOLERANCE &&
+      (o.signature === c.signature || (o.folio && c.folio))
+    );
+    const pagesSeen = new Set(similar.map(o => o.page)).size;
+
+    // Bare page numbers in the margin are furniture even in documents too short to show repetition.
+    if (pagesSeen >= minPages && pages.length > 1) {
+      result[c.page][c.index] = c.folio ? 'page-number' : c.zone;
+    } else if (c.folio) {
+      result[c.page][c.index] = 'page-number';
     }
-    
-    lastBox = item.box;
   });
 
-  if (currentBlock.length > 0) blocks.push(currentBlock);
+  return result;
+}
 
-  return blocks.map(b => b.join(' ').replace(/\s+/g, ' ').trim());
+export interface PageItems {
+  items: TextItem[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Regions and blocks of one page, before anything is classified.
+ */
+export function clusterPage({ items, width, height }: PageItems): PageClusters {
+  return { clusters: clusterTextItems(detectRegions(items, width, height)), width, height };
 }
 
 /**
- * Reading order logic: Cluster by vertical bands then horizontal.
+ * Classify the clustered pages from `from` onwards. Furniture and font statistics
+ * come from every page in `parsed`, so a document loaded page by page can classify
+ * new pages against all the pages seen so far without touching earlier ones.
  */
-export function determineReadingOrder(items: TextItem[]): TextItem[] {
-  // Simple multi-column heuristic: group by broad vertical bands
-  return [...items].sort((a, b) => {
-    const bandSize = 20; 
-    const aBand = Math.floor(a.box.y / bandSize);
-    const bBand = Math.floor(b.box.y / bandSize);
-    
-    if (aBand !== bBand) return aBand - bBand;
-    return a.box.x - b.box.x;
+export function classifyPages(parsed: PageClusters[], from: number = 0): PageContent[] {
+  // Running heads, footers and folios are tagged rather than dropped, so users can review them.
+  const furniture = detectFurniture(parsed);
+
+  // Classify against document-wide font statistics so every page shares one notion of "body text".
+  const stats = computeFontStats(parsed.flatMap((p, pIdx) => p.clusters.filter((_, cIdx) => !furniture[pIdx][cIdx])));
+
+  return parsed.slice(from).map(({ clusters, width, height }, offset) => {
+    const pIdx = from + offset;
+    return {
+      pageNumber: pIdx + 1,
+      width,
+      height,
+      blocks: clusters.map((c, order) => {
+        const classification = classifyCluster(c, stats, width);
+        const ocrConfidence = recognitionConfidence(c.items);
+        return {
+          ...classification,
+          confidence: ocrConfidence === null ? classification.confidence : classification.confidence * ocrConfidence,
+          content: c.text,
+          order,
+          box: c.box,
+          ...(c.table ? { table: c.table } : {}),
+          ...(furniture[pIdx][order] ? { furniture: furniture[pIdx][order]! } : {})
+        };
+      }),
+      rawText: clusters.filter((_, cIdx) => !furniture[pIdx][cIdx]).map(c => c.text).join('\n')
+    };
+  });
+}
+
+/**
+ * Full layout analysis for a document: regions and blocks per page, furniture
+ * across pages, then block types against document-wide font statistics. OCR
+ * pages go through the same steps; their recognition confidence caps the
+ * block's confidence.
+ */
+export function analyzePages(pages: PageItems[]): PageContent[] {
+  return classifyPages(pages.map(clusterPage));
+}
+
+/**
+ * Character-weighted mean OCR confidence of a block, or null for native text.
+ */
+function recognitionConfidence(items: TextItem[]): number | null {
+  const recognized = items.filter(i => i.confidence !== undefined);
+  if (recognized.length === 0) return null;
+  const chars = recognized.reduce((acc, i) => acc + i.text.length, 0) || 1;
+  return recognized.reduce((acc, i) => acc + i.confidence! * i.text.length, 0) / chars;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+}
+
+/**
+ * Each located layout block goes to the rewritten block holding most of its words. Tables
+ * are left out: they are not sent to the model.
+ */
+function matchRewrittenBlocks(rewritten: LayoutBlock[], located: TextBlock[]): TextBlock[][] {
+  const targets = rewritten.map(b => wordSet(b.content));
+  const covered: TextBlock[][] = rewritten.map(() => []);
+
+  located.forEach(block => {
+    if (!block.box || block.furniture || block.table) return;
+    const words = [...wordSet(block.content)];
+    if (words.length === 0) return;
+    let best = -1;
+    let bestShare = 0.5;
+    targets.forEach((target, i) => {
+      const share = words.filter(w => target.has(w)).length / words.length;
+      if (share > bestShare) {
+        best = i;
+        bestShare = share;
+      }
+    });
+    if (best >= 0) covered[best].push(block);
+  });
+
+  return covered;
+}
+
+/**
+ * Page positions for blocks the layout model rewrote: a rewritten block covers the layout
+ * blocks it got (see `matchRewrittenBlocks`); blocks that got none (e.g. text the model
+ * added) have no box.
+ */
+export function locateRewrittenBlocks(rewritten: LayoutBlock[], located: TextBlock[]): (BoundingBox | undefined)[] {
+  return matchRewrittenBlocks(rewritten, located).map(blocks => blocks.length > 0 ? unionBoxes(blocks.map(b => b.box!)) : undefined);
+}
+
+/**
+ * What the layout model gets for a page: its raw text less any detected tables, which keep
+ * their rows and cells instead of being paraphrased.
+ */
+export function cleanupText(page: PageContent): string {
+  if (!page.blocks.some(b => b.table)) return page.rawText;
+  return page.blocks.filter(b => !b.furniture && !b.table).map(b => b.content).join('\n');
+}
+
+/**
+ * A page's blocks with the body replaced by the layout model's rewrite. Furniture blocks are
+ * kept around it for review, and rewritten blocks keep a place on the page through the
+ * layout blocks they replace. Detected tables are kept as they are, ahead of the first
+ * rewritten block that replaces text from further down the page.
+ */
+export function mergeRewrittenBlocks(page: PageContent, rewritten: LayoutBlock[]): TextBlock[] {
+  const header = page.blocks.filter(b => b.furniture === 'header');
+  const footer = page.blocks.filter(b => b.furniture && b.furniture !== 'header');
+  const tables = page.blocks.filter(b => b.table && !b.furniture);
+  const matched = matchRewrittenBlocks(rewritten, page.blocks);
+
+  const body: TextBlock[] = [];
+  let next = 0;
+  rewritten.forEach((b, i) => {
+    // Blocks the model added stay with the block before them.
+    const from = matched[i].length > 0 ? Math.min(...matched[i].map(m => m.order)) : -1;
+    while (from >= 0 && next < tables.length && tables[next].order < from) body.push(tables[next++]);
+    body.push({ ...b, order: 0, confidence: 1.0, ...(matched[i].length > 0 ? { box: unionBoxes(matched[i].map(m => m.box!)) } : {}) });
   });
+  body.push(...tables.slice(next));
+
+  return [...header, ...body, ...footer].map((b, order) => ({ ...b, order }));
+}
+
+/**
+ * Paragraph blocks straight from raw text, for pages with no layout blocks to fall back to.
+ */
+export function paragraphBlocks(rawText: string): TextBlock[] {
+  return rawText
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .map((content, order) => ({ type: 'paragraph', content, order, confidence: 0.5 }));
 }
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { mathToSpeech, MathVerbosity } from './mathSpeech';
+
+// Formula, verbosity, expected reading.
+const CORPUS: [string, MathVerbosity, string][] = [
+  ['x^2 + y^2 = r^2', 'standard', 'x squared plus y squared equals r squared'],
+  ['\\frac{1}{2}', 'standard', 'one half'],
+  ['\\frac{a}{b}', 'brief', 'a over b'],
+  ['\\frac{n(n+1)}{2}', 'brief', 'the fraction n open paren n plus one close paren over two'],
+  ['\\frac{n(n+1)}{2}', 'standard', 'the fraction with numerator n open paren n plus one close paren and denominator two'],
+  ['\\frac{n(n+1)}{2}', 'verbose', 'start fraction n open paren n plus one close paren over two end fraction'],
+  ['2(a+b)', 'brief', 'two open paren a plus b close paren'],
+  ['f(x) = x^2', 'brief', 'f of x equals x squared'],
+  ['\\sqrt{b^2 - 4ac}', 'standard', 'the square root of b squared minus four a c, end root'],
+  ['\\sum_{i=1}^{n} i', 'standard', 'the sum from i equals one to n of i'],
+  ['\\lim_{x \\to 0} \\frac{\\sin x}{x}', 'standard', 'the limit as x approaches zero of the fraction with numerator sine of x and denominator x'],
+  ['\\{ x \\mid x > 0 \\}', 'standard', 'the set x such that x is greater than zero'],
+  ['|x|', 'standard', 'the absolute value of x'],
+  ['\\binom{n}{k}', 'standard', 'n choose k'],
+  ['[0, 1)', 'standard', 'the interval from zero to one, closed on the left and open on the right'],
+  ['\\left[ 0, 1 \\right)', 'standard', 'the interval from zero to one, closed on the left and open on the right'],
+  ['\\left( x \\right', 'standard', 'x'],
+  ['\\left( x \\right.', 'standard', 'x'],
+  ['\\left( x + 1 \\right', 'standard', 'open paren x plus one'],
+  ['\\left( x + 1 \\right.', 'standard', 'open paren x plus one'],
+  ['x ∈ ℝ', 'standard', 'x is in the real numbers'],
+  ['E = mc²', 'standard', 'E equals m c squared']
+];
+
+describe('mathToSpeech', () => {
+  it.each(CORPUS)('reads %s (%s)', (formula, verbosity, expected) => {
+    expect(mathToSpeech(formula, verbosity)).toBe(expected);
+  });
+
+  it('reads MathML without a DOM', () => {
+    expect(mathToSpeech('<math><mi>x</mi><mo>+</mo><mn>1</mn></math>')).toBe('x plus one');
+    expect(mathToSpeech('<math xmlns="http://www.w3.org/1998/Math/MathML"><mfrac><mrow><mi>a</mi><mo>&#x2212;</mo><mi>b</mi></mrow><mn>2</mn></mfrac></math>'))
+      .toBe('the fraction with numerator a minus b and denominator two');
+    expect(mathToSpeech('<math><msup><mi>x</mi><mn>2</mn></msup><mo>&InvisibleTimes;</mo><mi>y</mi></math>')).toBe('x squared y');
+    expect(mathToSpeech('<m:math><m:msqrt><m:mi>x</m:mi></m:msqrt></m:math>')).toBe('the square root of x');
+  });
+
+  it('prefers the TeX source carried by MathML', () => {
+    expect(mathToSpeech('<math alttext="\\frac{1}{2}"><mi>q</mi></math>')).toBe('one half');
+    expect(mathToSpeech('<math><semantics><mi>y</mi><annotation encoding="application/x-tex">\\alpha</annotation></semantics></math>')).toBe('alpha');
+  });
+});
@@ -0,0 +1,875 @@
+import { numberToWords, ordinalToWords } from './numberWords';
+
+/**
+ * Deterministic math-to-speech for `math` blocks. LaTeX, MathML and plain text with
+ * Unicode math glyphs are parsed into one small tree, which is then read back in
+ * English at the chosen verbosity.
+ */
+
+export type MathVerbosity = 'brief' | 'standard' | 'verbose';
+
+type MathNodeKind = 'row' | 'number' | 'ident' | 'word' | 'text' | 'op' | 'func' | 'frac' | 'binom' | 'sqrt' | 'script' | 'fenced' | 'matrix' | 'accent';
+
+export interface MathNode {
+  kind: MathNodeKind;
+  /** Leaf text; the environment name of a matrix; the accent name of an accent. */
+  value?: string;
+  /** row: items; frac and binom: [top, bottom]. */
+  children?: MathNode[];
+  /** script: the scripted node; sqrt: the radicand; fenced and accent: the body. */
+  base?: MathNode;
+  sub?: MathNode;
+  sup?: MathNode;
+  /** Root index of an nth root. */
+  index?: MathNode;
+  open?: string;
+  close?: string;
+  rows?: MathNode[][];
+}
+
+const SYMBOL_COMMANDS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ', vartheta: 'ϑ',
+  iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', varpi: 'ϖ', rho: 'ρ', varrho: 'ϱ', sigma: 'σ',
+  varsigma: 'ς', tau: 'τ', upsilon: 'υ', phi: 'ϕ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  times: '×', cdot: '⋅', div: '÷', pm: '±', mp: '∓', ast: '∗', star: '⋆', circ: '∘', oplus: '⊕', otimes: '⊗',
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', neq: '≠', approx: '≈', equiv: '≡', sim: '∼', simeq: '≃', cong: '≅',
+  propto: '∝', ll: '≪', gg: '≫', perp: '⊥', parallel: '∥', mid: '∣',
+  to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', implies: '⇒', Leftarrow: '⇐', Leftrightarrow: '⇔', iff: '⇔', mapsto: '↦',
+  in: '∈', notin: '∉', ni: '∋', subset: '⊂', subseteq: '⊆', supset: '⊃', supseteq: '⊇', cup: '∪', cap: '∩', setminus: '∖',
+  forall: '∀', exists: '∃', neg: '¬', lnot: '¬', land: '∧', wedge: '∧', lor: '∨', vee: '∨',
+  sum: '∑', prod: '∏', coprod: '∐', int: '∫', iint: '∬', iiint: '∭', oint: '∮', bigcup: '⋃', bigcap: '⋂',
+  infty: '∞', partial: '∂', nabla: '∇', emptyset: '∅', varnothing: '∅', hbar: 'ℏ', ell: 'ℓ', angle: '∠', degree: '°', prime: '′',
+  ldots: '…', cdots: '…', dots: '…', vdots: '…', ddots: '…',
+  lbrace: '{', rbrace: '}', langle: '⟨', rangle: '⟩', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉', vert: '|', Vert: '‖', lvert: '|', rvert: '|'
+};
+
+const GREEK_NAMES: Record<string, string> = {
+  'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta', 'ϵ': 'epsilon', 'ε': 'epsilon', 'ζ': 'zeta', 'η': 'eta', 'θ': 'theta', 'ϑ': 'theta',
+  'ι': 'iota', 'κ': 'kappa', 'λ': 'lambda', 'μ': 'mu', 'ν': 'nu', 'ξ': 'xi', 'π': 'pi', 'ϖ': 'pi', 'ρ': 'rho', 'ϱ': 'rho', 'σ': 'sigma',
+  'ς': 'sigma', 'τ': 'tau', 'υ': 'upsilon', 'ϕ': 'phi', 'φ': 'phi', 'χ': 'chi', 'ψ': 'psi', 'ω': 'omega',
+  'Γ': 'capital gamma', 'Δ': 'capital delta', 'Θ': 'capital theta', 'Λ': 'capital lambda', 'Ξ': 'capital xi', 'Π': 'capital pi',
+  'Σ': 'capital sigma', 'Υ': 'capital upsilon', 'Φ': 'capital phi', 'Ψ': 'capital psi', 'Ω': 'capital omega'
+};
+
+const NAMED_IDENTS: Record<string, string> = {
+  '∞': 'infinity', '∅': 'the empty set', 'ℏ': 'h bar', 'ℓ': 'ell', '∂': 'partial', '∇': 'del',
+  'ℝ': 'the real numbers', 'ℕ': 'the natural numbers', 'ℤ': 'the integers', 'ℚ': 'the rational numbers', 'ℂ': 'the complex numbers'
+};
+
+const SPOKEN_OPS: Record<string, string> = {
+  '+': 'plus', '-': 'minus', '−': 'minus', '±': 'plus or minus', '∓': 'minus or plus', '×': 'times', '⋅': 'times', '·': 'times', '*': 'times',
+  '∗': 'star', '⋆': 'star', '÷': 'divided by', '/': 'over', '∘': 'composed with', '⊕': 'direct sum', '⊗': 'tensor',
+  '=': 'equals', '≠': 'is not equal to', '<': 'is less than', '>': 'is greater than', '≤': 'is less than or equal to', '≥': 'is greater than or equal to',
+  '≈': 'is approximately equal to', '≡': 'is equivalent to', '∼': 'is similar to', '≃': 'is asymptotically equal to', '≅': 'is congruent to',
+  '∝': 'is proportional to', '≪': 'is much less than', '≫': 'is much greater than', '⊥': 'is perpendicular to', '∥': 'is parallel to', '∣': 'divides',
+  '→': 'to', '←': 'from', '⇒': 'implies', '⇐': 'is implied by', '⇔': 'if and only if', '↦': 'maps to',
+  '∈': 'is in', '∉': 'is not in', '∋': 'contains', '⊂': 'is a subset of', '⊆': 'is a subset of or equal to', '⊃': 'is a superset of',
+  '⊇': 'is a superset of or equal to', '∪': 'union', '∩': 'intersection', '∖': 'minus',
+  '∀': 'for all', '∃': 'there exists', '¬': 'not', '∧': 'and', '∨': 'or',
+  '…': 'dot dot dot', '′': 'prime', '″': 'double prime', "'": 'prime', '∠': 'angle', '!': 'factorial', '°': 'degrees', '%': 'percent',
+  '|': 'bar', ',': ',', ';': ';', ':': ',', '.': ''
+};
+
+const BIG_OPERATORS: Record<string, string> = {
+  '∑': 'sum', '∏': 'product', '∐': 'coproduct', '∫': 'integral', '∬': 'double integral', '∭': 'triple integral', '∮': 'contour integral',
+  '⋃': 'union', '⋂': 'intersection'
+};
+
+const FUNCTIONS: Record<string, string> = {
+  sin: 'sine', cos: 'cosine', tan: 'tangent', sec: 'secant', csc: 'cosecant', cot: 'cotangent',
+  arcsin: 'arc sine', arccos: 'arc cosine', arctan: 'arc tangent', sinh: 'hyperbolic sine', cosh: 'hyperbolic cosine', tanh: 'hyperbolic tangent',
+  log: 'log', ln: 'natural log', exp: 'exponential', det: 'determinant', gcd: 'greatest common divisor', deg: 'degree',
+  dim: 'dimension', ker: 'kernel', arg: 'argument', Pr: 'probability',
+  lim: 'limit', max: 'maximum', min: 'minimum', sup: 'supremum', inf: 'infimum'
+};
+
+// Functions whose subscript says what varies: "the limit as x approaches zero of".
+const LIMIT_FUNCTIONS = new Set(['lim', 'max', 'min', 'sup', 'inf']);
+
+// Single letters commonly used as function names, read "f of x" before parentheses.
+const FUNCTION_LETTERS = new Set(['f', 'g', 'h', 'F', 'G', 'H', 'P']);
+
+const ACCENTS: Record<string, string> = {
+  hat: 'hat', widehat: 'hat', bar: 'bar', overline: 'bar', vec: 'vector', overrightarrow: 'vector',
+  dot: 'dot', ddot: 'double dot', tilde: 'tilde', widetilde: 'tilde', underline: 'underline'
+};
+
+// MathML accent characters (in <mover>) by the accent they stand for.
+const ACCENT_CHARS: Record<string, string> = {
+  '^': 'hat', 'ˆ': 'hat', '¯': 'bar', '‾': 'bar', '→': 'vector', '⃗': 'vector', '˙': 'dot', '¨': 'double dot', '~': 'tilde', '˜': 'tilde'
+};
+
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textit', 'textbf', 'mathrm', 'mbox', 'operatorname']);
+const STYLE_COMMANDS = new Set(['mathbf', 'mathit', 'mathsf', 'mathtt', 'boldsymbol', 'bm', 'mathcal', 'mathfrak', 'mathscr', 'displaystyle', 'textstyle', 'scriptstyle', 'limits', 'nolimits']);
+const SPACING_COMMANDS = new Set(['quad', 'qquad', 'space', 'enspace', 'thinspace', 'medspace', 'thickspace']);
+const BLACKBOARD: Record<string, string> = { R: 'ℝ', N: 'ℕ', Z: 'ℤ', Q: 'ℚ', C: 'ℂ' };
+const FENCE_PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '⟨': '⟩', '⌊': '⌋', '⌈': '⌉' };
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁺': '+', '⁻': '-', '⁼': '=', '⁽': '(', '⁾': ')', 'ⁿ': 'n', 'ⁱ': 'i'
+};
+const SUBSCRIPTS: Record<string, string> = {
+  '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9', '₊': '+', '₋': '-', '₌': '=', '₍': '(', '₎': ')',
+  'ₐ': 'a', 'ₑ': 'e', 'ₒ': 'o', 'ₓ': 'x', 'ᵢ': 'i', 'ⱼ': 'j', 'ₖ': 'k', 'ₙ': 'n', 'ₘ': 'm', 'ₜ': 't'
+};
+
+// Short words that stay words in plain-text math ("x is in A"), rather than letter products.
+const SHORT_WORDS = new Set(['is', 'if', 'of', 'or', 'to', 'in', 'as', 'at', 'by', 'on', 'an', 'be', 'so']);
+
+// ---------------------------------------------------------------------------
+// LaTeX and Unicode text
+
+interface Token {
+  type: 'cmd' | 'char' | 'num' | 'word' | 'text';
+  value: string;
+}
+
+/**
+ * Tokenize LaTeX or plain text. In plain text (`latex` false) runs of three or more
+ * letters are words, and Unicode super/subscripts become ordinary scripts.
+ */
+function tokenize(source: string, latex: boolean): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const c = source[i];
+
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    if (c === '\\') {
+      const name = source.slice(i + 1).match(/^[a-zA-Z]+/)?.[0];
+      if (name) {
+        i += name.length + 1;
+        if (TEXT_COMMANDS.has(name)) {
+          while (source[i] === ' ') i++;
+          if (source[i] === '{') {
+            let depth = 0;
+            let j = i;
+            for (; j < source.length; j++) {
+              if (source[j] === '{') depth++;
+              else if (source[j] === '}' && --depth === 0) break;
+            }
+            tokens.push({ type: name === 'operatorname' ? 'cmd' : 'text', value: source.slice(i + 1, j).trim() });
+            i = j + 1;
+            continue;
+          }
+        }
+        tokens.push({ type: 'cmd', value: name });
+        continue;
+      }
+      const next = source[i + 1] || '';
+      i += 2;
+      if (next === '\\') tokens.push({ type: 'cmd', value: '\\' });
+      else if (next === '{') tokens.push({ type: 'cmd', value: 'lbrace' });
+      else if (next === '}') tokens.push({ type: 'cmd', value: 'rbrace' });
+      else if (next === '|') tokens.push({ type: 'cmd', value: 'Vert' });
+      else if ('%$#&_'.includes(next) && next) tokens.push({ type: 'word', value: next });
+      // Anything else after a backslash is spacing (\, \; \! ...).
+      continue;
+    }
+
+    const number = source.slice(i).match(latex ? /^\d+(?:\.\d+)?/ : /^(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?/);
+    if (number) {
+      tokens.push({ type: 'num', value: number[0] });
+      i += number[0].length;
+      continue;
+    }
+
+    if (SUPERSCRIPTS[c] || SUBSCRIPTS[c]) {
+      const table = SUPERSCRIPTS[c] ? SUPERSCRIPTS : SUBSCRIPTS;
+      let run = '';
+      while (i < source.length && table[source[i]]) run += table[source[i++]];
+      tokens.push({ type: 'char', value: table === SUPERSCRIPTS ? '^' : '_' }, { type: 'char', value: '{' }, ...tokenize(run, latex), { type: 'char', value: '}' });
+      continue;
+    }
+
+    if (c === '√' || c === '∛' || c === '∜') {
+      tokens.push({ type: 'cmd', value: 'sqrt' });
+      if (c !== '√') tokens.push({ type: 'char', value: '[' }, { type: 'num', value: c === '∛' ? '3' : '4' }, { type: 'char', value: ']' });
+      i++;
+      continue;
+    }
+
+    if (!latex && /\p{L}/u.test(c) && !GREEK_NAMES[c] && !NAMED_IDENTS[c]) {
+      let run = '';
+      while (i < source.length && /\p{L}/u.test(source[i]) && !SUPERSCRIPTS[source[i]] && !SUBSCRIPTS[source[i]] && !GREEK_NAMES[source[i]]) run += source[i++];
+      if (FUNCTIONS[run]) tokens.push({ type: 'cmd', value: run });
+      else if (run.length >= 3 || SHORT_WORDS.has(run.toLowerCase())) tokens.push({ type: 'word', value: run });
+      else run.split('').forEach(letter => tokens.push({ type: 'char', value: letter }));
+      continue;
+    }
+
+    if (!latex) {
+      const pair = source.slice(i, i + 2);
+      const combined = { '<=': '≤', '>=': '≥', '!=': '≠', '->': '→', '=>': '⇒', '+-': '±' }[pair];
+      if (combined) {
+        tokens.push({ type: 'char', value: combined });
+        i += 2;
+        continue;
+      }
+    }
+
+    tokens.push({ type: 'char', value: c });
+    i++;
+  }
+
+  return tokens;
+}
+
+const leaf = (kind: MathNodeKind, value: string): MathNode => ({ kind, value });
+const row = (children: MathNode[]): MathNode => (children.length === 1 ? children[0] : { kind: 'row', children });
+
+class TexParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[], private latex: boolean) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isChar(token: Token | undefined, value: string): boolean {
+    return !!token && token.type === 'char' && token.value === value;
+  }
+
+  private isCmd(token: Token | undefined, value: string): boolean {
+    return !!token && token.type === 'cmd' && token.value === value;
+  }
+
+  parse(): MathNode {
+    return this.parseRow(() => false);
+  }
+
+  private parseRow(stop: (token: Token) => boolean): MathNode {
+    const items: MathNode[] = [];
+
+    while (this.pos < this.tokens.length && !stop(this.peek()!)) {
+      const token = this.peek()!;
+
+      if (this.isChar(token, '^') || this.isChar(token, '_')) {
+        this.pos++;
+        const script = this.parseArgument();
+        const last = items[items.length - 1];
+        const target: MathNode = last && last.kind === 'script' && !(token.value === '^' ? last.sup : last.sub)
+          ? last
+          : { kind: 'script', base: items.pop() || row([]) };
+        if (token.value === '^') target.sup = script;
+        else target.sub = script;
+        if (target !== last) items.push(target);
+        continue;
+      }
+
+      if (this.isBracket(token)) {
+        items.push(this.parseBracket());
+        continue;
+      }
+
+      if (this.isChar(token, '|') && this.tokens.slice(this.pos + 1).some(t => this.isChar(t, '|'))) {
+        this.pos++;
+        const body = this.parseRow(t => this.isChar(t, '|'));
+        this.pos++;
+        items.push({ kind: 'fenced', open: '|', close: '|', base: body });
+        continue;
+      }
+
+      const atom = this.parseAtom();
+      if (atom) items.push(atom);
+    }
+
+    // Delimiters written as commands (\{ \langle \lfloor) are paired up afterwards.
+    return row(groupFences(items));
+  }
+
+  private isBracket(token: Token | undefined): boolean {
+    return !!token && token.type === 'char' && !!FENCE_PAIRS[token.value] && token.value !== '{';
+  }
+
+  private parseBracket(): MathNode {
+    const open = this.tokens[this.pos++].value;
+    // Half-open intervals close with the other bracket.
+    const closers = open === '(' || open === '[' ? [')', ']'] : [FENCE_PAIRS[open]];
+    const body = this.parseRow(t => t.type === 'char' && closers.includes(t.value));
+    const end = this.peek();
+    if (end) this.pos++;
+    return { kind: 'fenced', open, close: end ? end.value : FENCE_PAIRS[open], base: body };
+  }
+
+  /** A braced group, a bracketed group (for √(…) in plain text), or the next single atom (one digit of a number in LaTeX, as in \frac12). */
+  private parseArgument(): MathNode {
+    const token = this.peek();
+    if (!token) return row([]);
+    if (this.isChar(token, '{')) return this.parseAtom() || row([]);
+    if (!this.latex && this.isBracket(token)) return this.parseBracket();
+    if (this.latex && token.type === 'num' && token.value.length > 1) {
+      const digit = token.value[0];
+      token.value = token.value.slice(1);
+      return leaf('number', digit);
+    }
+    return this.parseAtom() || row([]);
+  }
+
+  private parseAtom(): MathNode | null {
+    const token = this.tokens[this.pos++];
+
+    switch (token.type) {
+      case 'num':
+        return leaf('number', token.value);
+      case 'word':
+        return leaf('word', token.value);
+      case 'text':
+        return leaf('text', token.value);
+      case 'char':
+        if (token.value === '{') {
+          const group = this.parseRow(t => this.isChar(t, '}'));
+          this.pos++;
+          return group;
+        }
+        if (token.value === '}' || token.value === '&') return null;
+        if (/\p{L}/u.test(token.value) || NAMED_IDENTS[token.value]) return leaf('ident', token.value);
+        return leaf('op', token.value);
+      case 'cmd':
+        return this.parseCommand(token.value);
+    }
+  }
+
+  private parseCommand(name: string): MathNode | null {
+    if (name === 'frac' || name === 'dfrac' || name === 'tfrac' || name === 'cfrac') {
+      return { kind: 'frac', children: [this.parseArgument(), this.parseArgument()] };
+    }
+    if (name === 'binom' || name === 'dbinom' || name === 'tbinom') {
+      return { kind: 'binom', children: [this.parseArgument(), this.parseArgument()] };
+    }
+    if (name === 'sqrt') {
+      let index: MathNode | undefined;
+      if (this.isChar(this.peek(), '[')) {
+        this.pos++;
+        index = this.parseRow(t => this.isChar(t, ']'));
+        this.pos++;
+      }
+      return { kind: 'sqrt', base: this.parseArgument(), index };
+    }
+    if (name === 'left') {
+      const open = this.delimiter();
+      const body = this.parseRow(t => this.isCmd(t, 'right'));
+      this.pos++;
+      const close = this.delimiter();
+      return { kind: 'fenced', open, close, base: body };
+    }
+    if (name === 'right' || name === '\\' || SPACING_COMMANDS.has(name)) return null;
+    if (name === 'begin') return this.parseEnvironment();
+    if (name === 'mathbb') {
+      const arg = this.parseArgument();
+      return arg.kind === 'ident' && BLACKBOARD[arg.value!] ? leaf('ident', BLACKBOARD[arg.value!]) : arg;
+    }
+    if (STYLE_COMMANDS.has(name)) {
+      return name.endsWith('style') || name.endsWith('limits') ? null : this.parseArgument();
+    }
+    if (ACCENTS[name]) return { kind: 'accent', value: ACCENTS[name], base: this.parseArgument() };
+    if (FUNCTIONS[name]) return leaf('func', name);
+    if (SYMBOL_COMMANDS[name]) {
+      const symbol = SYMBOL_COMMANDS[name];
+      return GREEK_NAMES[symbol] || NAMED_IDENTS[symbol] ? leaf('ident', symbol) : leaf('op', symbol);
+    }
+    // Unknown commands (custom macros, \operatorname{...} names) are read by name.
+    return leaf('word', name);
+  }
+
+  private delimiter(): string {
+    const token = this.tokens[this.pos++];
+    // A \right with nothing after it is as invisible as \right.
+    if (!token) return '';
+    if (token.type === 'cmd') return SYMBOL_COMMANDS[token.value] || '';
+    return token.value === '.' ? '' : token.value;
+  }
+
+  private parseEnvironment(): MathNode {
+    const nameTokens: string[] = [];
+    if (this.isChar(this.peek(), '{')) {
+      this.pos++;
+      while (this.peek() && !this.isChar(this.peek(), '}')) nameTokens.push(this.tokens[this.pos++].value);
+      this.pos++;
+    }
+    const env = nameTokens.join('').replace('*', '');
+    // Skip an array column spec such as {cc|c}.
+    if (env === 'array' && this.isChar(this.peek(), '{')) {
+      while (this.peek() && !this.isChar(this.peek(), '}')) this.pos++;
+      this.pos++;
+    }
+
+    const rows: MathNode[][] = [];
+    let cells: MathNode[] = [];
+    const endOfCell = (t: Token) => this.isChar(t, '&') || this.isCmd(t, '\\') || this.isCmd(t, 'end');
+    while (this.pos < this.tokens.length) {
+      cells.push(this.parseRow(endOfCell));
+      const token = this.tokens[this.pos++];
+      if (!token || this.isCmd(token, 'end')) break;
+      if (this.isCmd(token, '\\')) {
+        rows.push(cells);
+        cells = [];
+      }
+    }
+    if (cells.some(cell => cell.kind !== 'row' || cell.children!.length > 0)) rows.push(cells);
+
+    // Consume the environment name after \end.
+    if (this.isChar(this.peek(), '{')) {
+      while (this.peek() && !this.isChar(this.peek(), '}')) this.pos++;
+      this.pos++;
+    }
+    return { kind: 'matrix', value: env, rows };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MathML
+
+/** The parts of a DOM element the converter reads, so markup can be read without a DOM (in the CLI). */
+export interface MathMLElement {
+  localName: string;
+  children: ArrayLike<MathMLElement>;
+  textContent: string | null;
+  getAttribute(name: string): string | null;
+}
+
+function childElements(el: MathMLElement): MathMLElement[] {
+  return Array.from(el.children);
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<', gt: '>', amp: '&', quot: '"', apos: "'", nbsp: ' ', minus: '−', times: '×', sdot: '⋅', middot: '·', pm: '±', div: '÷',
+  le: '≤', ge: '≥', ne: '≠', infin: '∞', sum: '∑', int: '∫', prime: '′', rarr: '→', larr: '←', harr: '↔', isin: '∈', part: '∂',
+  ApplyFunction: '\u2061', af: '\u2061', InvisibleTimes: '\u2062', it: '\u2062', InvisibleComma: '\u2063', ic: '\u2063'
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') return String.fromCodePoint(name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1)));
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+class MarkupElement implements MathMLElement {
+  children: MarkupElement[] = [];
+  private parts: (MarkupElement | string)[] = [];
+
+  constructor(readonly localName: string, private attributes: Record<string, string>) {}
+
+  get textContent(): string {
+    return this.parts.map(part => (typeof part === 'string' ? part : part.textContent)).join('');
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes[name] ?? null;
+  }
+
+  append(part: MarkupElement | string) {
+    this.parts.push(part);
+    if (typeof part !== 'string') this.children.push(part);
+  }
+
+  find(match: (el: MarkupElement) => boolean): MarkupElement | null {
+    if (match(this)) return this;
+    for (const child of this.children) {
+      const found = child.find(match);
+      if (found) return found;
+    }
+    return null;
+  }
+}
+
+/**
+ * Read markup into a light element tree. Namespace prefixes are dropped, unclosed
+ * elements close with their parent, and comments, processing instructions and
+ * doctypes are skipped.
+ */
+function parseMarkup(source: string): MarkupElement {
+  const root = new MarkupElement('#document', {});
+  const open: MarkupElement[] = [root];
+  const tag = /<!--[\s\S]*?-->|<[!?][^>]*>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/g;
+  let last = 0;
+
+  for (const match of source.matchAll(tag)) {
+    const [whole, closing, opening, attributeText, selfClosing] = match;
+    const text = source.slice(last, match.index);
+    if (text) open[open.length - 1].append(decodeEntities(text));
+    last = match.index! + whole.length;
+
+    const name = (closing || opening || '').replace(/^.*:/, '');
+    if (closing) {
+      const depth = open.map(el => el.localName).lastIndexOf(name);
+      if (depth > 0) open.length = depth;
+    } else if (opening) {
+      const attributes: Record<string, string> = {};
+      for (const [, key, double, single, bare] of attributeText.matchAll(/([\w:.-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g)) {
+        attributes[key.replace(/^.*:/, '')] = decodeEntities(double ?? single ?? bare ?? '');
+      }
+      const el = new MarkupElement(name, attributes);
+      open[open.length - 1].append(el);
+      if (!selfClosing) open.push(el);
+    }
+  }
+  const rest = source.slice(last);
+  if (rest) open[open.length - 1].append(decodeEntities(rest));
+  return root;
+}
+
+/**
+ * Pair up bracket operators in a MathML row into fenced groups.
+ */
+function groupFences(items: MathNode[]): MathNode[] {
+  const result: MathNode[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const close = item.kind === 'op' ? FENCE_PAIRS[item.value!] || (item.value === '|' ? '|' : '') : '';
+    if (close) {
+      let depth = 0;
+      let j = i + 1;
+      for (; j < items.length; j++) {
+        if (items[j].kind !== 'op') continue;
+        if (items[j].value === close && depth === 0) break;
+        if (items[j].value === item.value && close !== '|') depth++;
+        else if (items[j].value === close) depth--;
+      }
+      if (j < items.length) {
+        result.push({ kind: 'fenced', open: item.value, close, base: row(groupFences(items.slice(i + 1, j))) });
+        i = j;
+        continue;
+      }
+    }
+    result.push(item);
+  }
+  return result;
+}
+
+export function mathMLToNode(el: MathMLElement): MathNode {
+  const children = childElements(el);
+  const text = (el.textContent || '').trim();
+  const convert = (list: MathMLElement[]) => row(groupFences(list.map(mathMLToNode).filter(n => n.kind !== 'row' || n.children!.length > 0)));
+
+  switch (el.localName) {
+    case 'mi':
+      if (text.length === 1 || GREEK_NAMES[text] || NAMED_IDENTS[text]) return leaf('ident', text);
+      return FUNCTIONS[text] ? leaf('func', text) : leaf('word', text);
+    case 'mn':
+      return leaf('number', text.replace(/[\s,]/g, ''));
+    case 'mo':
+      // Invisible function application and invisible times carry no sound.
+      if (!text || /^[⁡-⁤]$/.test(text)) return row([]);
+      if (FUNCTIONS[text]) return leaf('func', text);
+      return NAMED_IDENTS[text] ? leaf('ident', text) : leaf('op', text === '-' ? '−' : text);
+    case 'mtext':
+      return text ? leaf('text', text) : row([]);
+    case 'mspace':
+    case 'mphantom':
+    case 'annotation':
+    case 'annotation-xml':
+      return row([]);
+    case 'semantics':
+      return children[0] ? mathMLToNode(children[0]) : row([]);
+    case 'mfrac':
+      return { kind: el.getAttribute('linethickness') === '0' ? 'binom' : 'frac', children: [mathMLToNode(children[0]), mathMLToNode(children[1])] };
+    case 'msqrt':
+      return { kind: 'sqrt', base: convert(children) };
+    case 'mroot':
+      return { kind: 'sqrt', base: mathMLToNode(children[0]), index: mathMLToNode(children[1]) };
+    case 'msub':
+      return { kind: 'script', base: mathMLToNode(children[0]), sub: mathMLToNode(children[1]) };
+    case 'msup':
+      return { kind: 'script', base: mathMLToNode(children[0]), sup: mathMLToNode(children[1]) };
+    case 'msubsup':
+      return { kind: 'script', base: mathMLToNode(children[0]), sub: mathMLToNode(children[1]), sup: mathMLToNode(children[2]) };
+    case 'munder':
+      return { kind: 'script', base: mathMLToNode(children[0]), sub: mathMLToNode(children[1]) };
+    case 'mover': {
+      const accent = ACCENT_CHARS[(children[1]?.textContent || '').trim()];
+      if (accent) return { kind: 'accent', value: accent, base: mathMLToNode(children[0]) };
+      return { kind: 'script', base: mathMLToNode(children[0]), sup: mathMLToNode(children[1]) };
+    }
+    case 'munderover':
+      return { kind: 'script', base: mathMLToNode(children[0]), sub: mathMLToNode(children[1]), sup: mathMLToNode(children[2]) };
+    case 'mfenced':
+      return { kind: 'fenced', open: el.getAttribute('open') ?? '(', close: el.getAttribute('close') ?? ')', base: convert(children) };
+    case 'mtable':
+      return {
+        kind: 'matrix',
+        value: 'matrix',
+        rows: children
+          .filter(r => r.localName === 'mtr' || r.localName === 'mlabeledtr')
+          .map(r => childElements(r).filter(c => c.localName === 'mtd').map(c => convert(childElements(c))))
+      };
+    default:
+      // math, mrow, mstyle, mpadded, menclose and anything unknown: read the children in order.
+      return convert(children);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Speech
+
+interface SpeechContext {
+  verbosity: MathVerbosity;
+  /** Inside the subscript of a limit, where an arrow reads "approaches". */
+  limit?: boolean;
+  /** Inside set braces, where a bar or colon reads "such that". */
+  set?: boolean;
+}
+
+const isLeaf = (node: MathNode) => node.kind === 'number' || node.kind === 'ident' || node.kind === 'word' || node.kind === 'text';
+
+function isSimple(node: MathNode): boolean {
+  if (isLeaf(node)) return true;
+  if (node.kind === 'row') return node.children!.length === 0;
+  if (node.kind === 'script') return isLeaf(node.base!) && (!node.sub || isLeaf(node.sub)) && (!node.sup || isLeaf(node.sup));
+  if (node.kind === 'accent') return isLeaf(node.base!);
+  return false;
+}
+
+function commonFraction(top: MathNode, bottom: MathNode): string | null {
+  if (top.kind !== 'number' || bottom.kind !== 'number' || !/^\d$/.test(top.value!) || !/^(?:[2-9]|10)$/.test(bottom.value!)) return null;
+  const n = Number(top.value);
+  const d = Number(bottom.value);
+  const one = d === 2 ? 'half' : d === 4 ? 'quarter' : ordinalToWords(String(d));
+  const many = d === 2 ? 'halves' : `${one}s`;
+  return `${numberToWords(top.value!)} ${n === 1 ? one : many}`;
+}
+
+function speakFraction(node: MathNode, ctx: SpeechContext): string {
+  const [top, bottom] = node.children!;
+  const common = ctx.verbosity !== 'verbose' ? commonFraction(top, bottom) : null;
+  if (common) return common;
+  const n = speak(top, ctx);
+  const d = speak(bottom, ctx);
+  if (ctx.verbosity === 'verbose') return `start fraction ${n} over ${d} end fraction`;
+  if (isSimple(top) && isSimple(bottom)) return `${n} over ${d}`;
+  return ctx.verbosity === 'standard' ? `the fraction with numerator ${n} and denominator ${d}` : `the fraction ${n} over ${d}`;
+}
+
+function speakRoot(node: MathNode, ctx: SpeechContext): string {
+  const radicand = node.base!.kind === 'fenced' && node.base!.open === '(' ? node.base!.base! : node.base!;
+  const body = speak(radicand, ctx);
+  const index = node.index && !(node.index.kind === 'row' && node.index.children!.length === 0) ? node.index : null;
+  let root = 'the square root of';
+  if (index && index.kind === 'number') root = index.value === '3' ? 'the cube root of' : `the ${ordinalToWords(index.value!)} root of`;
+  else if (index) root = `the root of index ${speak(index, ctx)} of`;
+  const close = ctx.verbosity === 'verbose' || (ctx.verbosity === 'standard' && !isSimple(radicand)) ? ', end root' : '';
+  return `${root} ${body}${close}`;
+}
+
+function speakPower(base: string, sup: MathNode, ctx: SpeechContext): string {
+  if (sup.kind === 'op' && (sup.value === '′' || sup.value === "'")) return `${base} prime`;
+  if (sup.kind === 'op' && (sup.value === '∗' || sup.value === '*' || sup.value === '⋆')) return `${base} star`;
+  if (ctx.verbosity !== 'verbose' && sup.kind === 'number' && sup.value === '2') return `${base} squared`;
+  if (ctx.verbosity !== 'verbose' && sup.kind === 'number' && sup.value === '3') return `${base} cubed`;
+  const exponent = speak(sup, ctx);
+  if (ctx.verbosity === 'verbose') return `${base} superscript ${exponent} end superscript`;
+  if (ctx.verbosity === 'brief') return `${base} to the ${exponent}`;
+  return isSimple(sup) ? `${base} to the power of ${exponent}` : `${base} raised to the power ${exponent}, end power`;
+}
+
+function speakScript(node: MathNode, ctx: SpeechContext): string {
+  const { base, sub, sup } = node;
+
+  if (base!.kind === 'op' && BIG_OPERATORS[base!.value!]) {
+    const name = `the ${BIG_OPERATORS[base!.value!]}`;
+    if (sub && sup) return `${name} from ${speak(sub, ctx)} to ${speak(sup, ctx)} of`;
+    if (sub) return `${name} over ${speak(sub, ctx)} of`;
+    return sup ? `${name} to ${speak(sup, ctx)} of` : `${name} of`;
+  }
+
+  if (base!.kind === 'func' && LIMIT_FUNCTIONS.has(base!.value!) && sub) {
+    const over = speak(sub, { ...ctx, limit: true });
+    return base!.value === 'lim' ? `the limit as ${over} of` : `the ${FUNCTIONS[base!.value!]} over ${over} of`;
+  }
+
+  let spoken = speak(base!, ctx);
+  if (sub) {
+    const subscript = speak(sub, ctx);
+    if (ctx.verbosity === 'verbose') spoken = `${spoken} subscript ${subscript} end subscript`;
+    else if (ctx.verbosity === 'standard') spoken = `${spoken} sub ${subscript}`;
+    else spoken = `${spoken} ${subscript}`;
+  }
+  return sup ? speakPower(spoken, sup, ctx) : spoken;
+}
+
+function speakFenced(node: MathNode, ctx: SpeechContext): string {
+  const body = speak(node.base!, { ...ctx, set: node.open === '{' });
+  if (node.open === '|' && node.close === '|') return `the absolute value of ${body}`;
+  if (node.open === '‖') return `the norm of ${body}`;
+  if (node.open === '⌊') return `the floor of ${body}`;
+  if (node.open === '⌈') return `the ceiling of ${body}`;
+  if (node.open === '{') return `the set ${body}`;
+  if (node.base!.kind === 'matrix') return body;
+
+  // Intervals such as [0, 1) say which ends are included; a missing or blank \right is not one.
+  const interval = (node.open === '(' || node.open === '[') && (node.close === ')' || node.close === ']');
+  if (interval && FENCE_PAIRS[node.open!] !== node.close) {
+    const items = node.base!.kind === 'row' ? node.base!.children! : [node.base!];
+    const comma = items.findIndex(n => n.kind === 'op' && n.value === ',');
+    const range = comma > 0 ? `${speak(row(items.slice(0, comma)), ctx)} to ${speak(row(items.slice(comma + 1)), ctx)}` : body;
+    return `the interval from ${range}, ${node.open === '[' ? 'closed' : 'open'} on the left and ${node.close === ']' ? 'closed' : 'open'} on the right`;
+  }
+  // Even brief speech keeps the parentheses around a compound group: n(n+1) is not "n n plus one".
+  if (ctx.verbosity !== 'verbose' && isSimple(node.base!)) return body;
+  // An invisible delimiter (\left. or \right.) says nothing.
+  const open = node.open ? (node.open === '[' ? 'open bracket' : 'open paren') : '';
+  const close = node.close ? (node.close === ']' ? 'close bracket' : 'close paren') : '';
+  return [open, body, close].filter(Boolean).join(' ');
+}
+
+function speakMatrix(node: MathNode, ctx: SpeechContext): string {
+  const rows = node.rows!.map(r => r.map(cell => speak(cell, ctx)));
+  const columns = Math.max(0, ...rows.map(r => r.length));
+
+  if (node.value === 'cases') {
+    return `cases: ${rows.map(([value, condition]) => condition ? `${value} ${/^(if|when|otherwise|for)\b/.test(condition) ? '' : 'if '}${condition}` : value).join('; ')}`;
+  }
+
+  const determinant = node.value === 'vmatrix' || node.value === 'Vmatrix';
+  const name = `${determinant ? 'the determinant of ' : ''}the ${numberToWords(String(rows.length))} by ${numberToWords(String(columns))} matrix`;
+  if (ctx.verbosity === 'brief') return `${name}: ${rows.map(r => r.join(', ')).join('; ')}`;
+  if (ctx.verbosity === 'standard') {
+    return `${name} with ${rows.map((r, i) => `row ${numberToWords(String(i + 1))}: ${r.join(', ')}`).join('; ')}`;
+  }
+  const cells = rows.map((r, i) => `row ${numberToWords(String(i + 1))}, ${r.map((cell, j) => `column ${numberToWords(String(j + 1))}: ${cell}`).join('; ')}`);
+  return `${name}; ${cells.join('; ')}; end matrix`;
+}
+
+function speakRow(children: MathNode[], ctx: SpeechContext): string {
+  const parts: string[] = [];
+
+  children.forEach((child, i) => {
+    const previous = children[i - 1];
+    const next = children[i + 1];
+
+    // A minus sign that starts an expression or follows an operator is a negative sign.
+    if (child.kind === 'op' && (child.value === '-' || child.value === '−') && (!previous || previous.kind === 'op')) {
+      parts.push('negative');
+      return;
+    }
+    if (child.kind === 'op' && BIG_OPERATORS[child.value!]) {
+      parts.push(`the ${BIG_OPERATORS[child.value!]} of`);
+      return;
+    }
+
+    parts.push(speak(child, ctx));
+
+    const applied = child.kind === 'func' || (child.kind === 'script' && child.base!.kind === 'func' && !child.sub);
+    const letterCall = child.kind === 'ident' && FUNCTION_LETTERS.has(child.value!) && next?.kind === 'fenced' && next.open === '(';
+    if (next && next.kind !== 'op' && ((applied && !LIMIT_FUNCTIONS.has(child.kind === 'func' ? child.value! : child.base!.value!)) || letterCall)) {
+      parts.push('of');
+    }
+  });
+
+  return parts.join(' ');
+}
+
+function speak(node: MathNode, ctx: SpeechContext): string {
+  switch (node.kind) {
+    case 'row':
+      return speakRow(node.children!, ctx);
+    case 'number':
+      return numberToWords(node.value!);
+    case 'ident':
+      return GREEK_NAMES[node.value!] || NAMED_IDENTS[node.value!] || node.value!;
+    case 'word':
+    case 'text':
+      return node.value!;
+    case 'op':
+      if (ctx.limit && node.value === '→') return 'approaches';
+      if (ctx.set && (node.value === '∣' || node.value === '|' || node.value === ':')) return 'such that';
+      return SPOKEN_OPS[node.value!] ?? node.value!;
+    case 'func':
+      return FUNCTIONS[node.value!] || node.value!;
+    case 'frac':
+      return speakFraction(node, ctx);
+    case 'binom':
+      return `${speak(node.children![0], ctx)} choose ${speak(node.children![1], ctx)}`;
+    case 'sqrt':
+      return speakRoot(node, ctx);
+    case 'script':
+      return speakScript(node, ctx);
+    case 'fenced':
+      return speakFenced(node, ctx);
+    case 'matrix':
+      return speakMatrix(node, ctx);
+    case 'accent':
+      return node.value === 'vector' ? `vector ${speak(node.base!, ctx)}` : `${speak(node.base!, ctx)} ${node.value}`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Entry points
+
+/**
+ * Serialize a tree back to LaTeX, for showing MathML content as readable text.
+ */
+export function mathNodeToLatex(node: MathNode): string {
+  const tex = (n: MathNode | undefined) => (n ? mathNodeToLatex(n) : '');
+  const group = (n: MathNode | undefined) => `{${tex(n)}}`;
+
+  switch (node.kind) {
+    case 'row':
+      return node.children!.map(mathNodeToLatex).join(' ');
+    case 'number':
+    case 'ident':
+    case 'op':
+      return node.value!;
+    case 'word':
+    case 'text':
+      return `\\text{${node.value}}`;
+    case 'func':
+      return `\\${node.value}`;
+    case 'frac':
+      return `\\frac${group(node.children![0])}${group(node.children![1])}`;
+    case 'binom':
+      return `\\binom${group(node.children![0])}${group(node.children![1])}`;
+    case 'sqrt':
+      return `\\sqrt${node.index ? `[${tex(node.index)}]` : ''}${group(node.base)}`;
+    case 'script':
+      return `${tex(node.base)}${node.sub ? `_${group(node.sub)}` : ''}${node.sup ? `^${group(node.sup)}` : ''}`;
+    case 'fenced':
+      return `\\left${node.open || '.'} ${tex(node.base)} \\right${node.close || '.'}`;
+    case 'matrix':
+      return `\\begin{${node.value}} ${node.rows!.map(r => r.map(mathNodeToLatex).join(' & ')).join(' \\\\ ')} \\end{${node.value}}`;
+    case 'accent': {
+      const command = Object.keys(ACCENTS).find(name => ACCENTS[name] === node.value) || 'hat';
+      return `\\${command}${group(node.base)}`;
+    }
+  }
+}
+
+function parseMathML(source: string): MathNode | null {
+  const math = parseMarkup(source).find(el => el.localName === 'math');
+  if (!math) return null;
+  const tex = math.getAttribute('alttext') || math.find(el => el.localName === 'annotation' && el.getAttribute('encoding') === 'application/x-tex')?.textContent;
+  return tex ? parseTex(tex) : mathMLToNode(math);
+}
+
+function parseTex(source: string): MathNode {
+  const stripped = source.trim()
+    .replace(/^\$\$([\s\S]*)\$\$$/, '$1')
+    .replace(/^\$([\s\S]*)\$$/, '$1')
+    .replace(/^\\\[([\s\S]*)\\\]$/, '$1')
+    .replace(/^\\\(([\s\S]*)\\\)$/, '$1');
+  const latex = /\\[a-zA-Z]/.test(stripped) || /[\^_]\{/.test(stripped);
+  return new TexParser(tokenize(stripped, latex), latex).parse();
+}
+
+/**
+ * Read a formula aloud: MathML markup, LaTeX (with or without $ delimiters), or plain
+ * text using Unicode math symbols.
+ */
+export function mathToSpeech(source: string, verbosity: MathVerbosity = 'standard'): string {
+  const node = /^\s*<(?:\w+:)?math[\s>]/i.test(source) ? parseMathML(source) : parseTex(source);
+  if (!node) return source;
+  return speak(node, { verbosity })
+    .replace(/\s+([,;])/g, '$1')
+    .replace(/([,;])(?:\s*[,;])+/g, '$1')
+    .replace(/\s+/g, ' ')
+    .replace(/^[,;]\s*|[,;]\s*$/g, '')
+    .trim();
+}
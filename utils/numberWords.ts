@@ -0,0 +1,80 @@
+/**
+ * Spell numbers out in English words.
+ */
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion', 'quadrillion'];
+
+const ORDINAL_WORDS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+};
+
+function belowThousand(n: number): string {
+  const parts: string[] = [];
+  if (n >= 100) {
+    parts.push(`${ONES[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    parts.push(n % 10 ? `${TENS[Math.floor(n / 10)]}-${ONES[n % 10]}` : TENS[Math.floor(n / 10)]);
+  } else if (n > 0 || parts.length === 0) {
+    parts.push(ONES[n]);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Integer to words ("1204" -> "one thousand two hundred four"). Falls back to
+ * digit-by-digit reading beyond the quadrillions.
+ */
+export function integerToWords(digits: string): string {
+  const clean = digits.replace(/^0+(?=\d)/, '');
+  if (clean.length > SCALES.length * 3) return digitsToWords(clean);
+
+  let n = clean;
+  const groups: string[] = [];
+  for (let scale = 0; n.length > 0; scale++) {
+    const group = Number(n.slice(-3));
+    n = n.slice(0, -3);
+    if (group > 0) groups.unshift(SCALES[scale] ? `${belowThousand(group)} ${SCALES[scale]}` : belowThousand(group));
+  }
+  return groups.length ? groups.join(' ') : 'zero';
+}
+
+export function digitsToWords(digits: string): string {
+  return digits.split('').map(d => ONES[Number(d)]).join(' ');
+}
+
+/**
+ * "3.14" -> "three point one four"; "-2" -> "minus two".
+ */
+export function numberToWords(text: string): string {
+  const negative = text.startsWith('-') || text.startsWith('−');
+  const [whole, fraction] = text.replace(/^[-−]/, '').replace(/,/g, '').split('.');
+  let words = integerToWords(whole || '0');
+  if (fraction) words += ` point ${digitsToWords(fraction)}`;
+  return negative ? `minus ${words}` : words;
+}
+
+export function ordinalToWords(digits: string): string {
+  const words = integerToWords(digits);
+  return words.replace(/([a-z]+)$/, (last) => {
+    if (ORDINAL_WORDS[last]) return ORDINAL_WORDS[last];
+    if (last.endsWith('y')) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+}
+
+/**
+ * Years are read in pairs: 1984 -> "nineteen eighty-four", 1900 -> "nineteen hundred",
+ * 2005 -> "two thousand five", 2024 -> "twenty twenty-four".
+ */
+export function yearToWords(year: number): string {
+  if (year >= 2000 && year < 2010) return integerToWords(String(year));
+  const high = Math.floor(year / 100);
+  const low = year % 100;
+  if (low === 0) return `${belowThousand(high)} hundred`;
+  return `${belowThousand(high)} ${low < 10 ? `oh ${ONES[low]}` : belowThousand(low)}`;
+}
@@ -0,0 +1,55 @@
+import { OutlineEntry, PageContent } from '../types';
+
+/**
+ * Table-of-contents helpers shared by the embedded PDF outline and the heading fallback.
+ */
+
+function normalizeTitle(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Index of the block on `page` that an outline title points at: the first
+ * block whose text starts with the title (headings first), else the first
+ * block at all.
+ */
+export function findTitleBlock(page: PageContent, title: string): number {
+  const wanted = normalizeTitle(title);
+  if (!wanted) return 0;
+  const matches = (i: number) => normalizeTitle(page.blocks[i].content).startsWith(wanted);
+  const indexes = page.blocks.map((_, i) => i);
+  const heading = indexes.find(i => page.blocks[i].type === 'heading' && matches(i));
+  if (heading !== undefined) return heading;
+  const any = indexes.find(matches);
+  return any !== undefined ? any : 0;
+}
+
+/**
+ * Outline built from detected heading blocks, for files without an embedded one.
+ * Blocks do not keep their font size, so every entry is top-level.
+ */
+export function buildHeadingOutline(pages: PageContent[]): OutlineEntry[] {
+  const outline: OutlineEntry[] = [];
+  pages.forEach((page, pageIdx) => {
+    page.blocks.forEach((block, blockIdx) => {
+      if (block.type !== 'heading' || block.furniture) return;
+      const title = block.content.replace(/\s+/g, ' ').trim();
+      if (title) outline.push({ title, level: 0, page: pageIdx, block: blockIdx });
+    });
+  });
+  return outline;
+}
+
+/**
+ * Index of the entry whose section contains a reading position, or -1 before the first entry.
+ */
+export function sectionIndexAt(outline: OutlineEntry[], page: number, block: number): number {
+  let current = -1;
+  outline.forEach((entry, i) => {
+    const reached = entry.page < page || (entry.page === page && entry.block <= block);
+    const best = outline[current];
+    // Outlines are not always in document order; keep the latest start that has been reached.
+    if (reached && (!best || entry.page > best.page || (entry.page === best.page && entry.block >= best.block))) current = i;
+  });
+  return current;
+}
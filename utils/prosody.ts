@@ -0,0 +1,27 @@
+import { BlockType } from '../types';
+
+/**
+ * Per-block-type delivery: silence around the block and a speaking-rate multiplier.
+ */
+export interface BlockProsody {
+  /** Seconds of silence before the block starts. */
+  pauseBefore: number;
+  /** Seconds of silence after the block ends. */
+  pauseAfter: number;
+  /** Multiplier on the user's speed; below 1 reads more deliberately. */
+  rateScale: number;
+}
+
+const PROSODY: Record<BlockType, BlockProsody> = {
+  paragraph: { pauseBefore: 0, pauseAfter: 0.35, rateScale: 1 },
+  heading: { pauseBefore: 0.4, pauseAfter: 0.8, rateScale: 0.9 },
+  list: { pauseBefore: 0.15, pauseAfter: 0.4, rateScale: 1 },
+  table: { pauseBefore: 0.3, pauseAfter: 0.5, rateScale: 0.95 },
+  sidebar: { pauseBefore: 0.5, pauseAfter: 0.5, rateScale: 1 },
+  math: { pauseBefore: 0.3, pauseAfter: 0.5, rateScale: 0.85 },
+  'chart-desc': { pauseBefore: 0.3, pauseAfter: 0.5, rateScale: 1 }
+};
+
+export function prosodyFor(type: BlockType): BlockProsody {
+  return PROSODY[type] || PROSODY.paragraph;
+}
@@ -0,0 +1,65 @@
+/**
+ * Retry with exponential backoff and full jitter, abortable between attempts.
+ */
+
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  isRetryable: (error: unknown) => boolean;
+  /**
+   * Server-requested wait for an error (e.g. from Retry-After), used instead of the backoff when
+   * longer. A wait beyond `maxDelayMs` is not worth blocking on, so the error is thrown instead.
+   */
+  retryAfterMs?: (error: unknown) => number | undefined;
+}
+
+function abortError(): DOMException {
+  return new DOMException('Aborted', 'AbortError');
+}
+
+/**
+ * HTTP statuses worth retrying: no response at all (0, the network is down), quota (429)
+ * and server errors (5xx).
+ */
+export function isTransientStatus(status: number): boolean {
+  return status === 0 || status === 429 || status >= 500;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries = 3, baseDelayMs = 500, maxDelayMs = 8000, signal, isRetryable, retryAfterMs } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || isAbortError(error) || !isRetryable(error)) throw error;
+      const requested = retryAfterMs?.(error) ?? 0;
+      if (requested > maxDelayMs) throw error;
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(Math.max(backoff, requested), signal);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { PageContent } from '../types';
+
+/**
+ * In-memory BM25 keyword index over a document's blocks, for picking the passages
+ * a question is sent with.
+ */
+
+export interface BlockRef {
+  page: number;
+  block: number;
+}
+
+export interface BlockMatch extends BlockRef {
+  score: number;
+}
+
+interface IndexedBlock extends BlockRef {
+  terms: Map<string, number>;
+  length: number;
+}
+
+export interface BlockIndex {
+  blocks: IndexedBlock[];
+  /** Number of blocks each term appears in. */
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'how', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'what', 'when', 'where',
+  'which', 'who', 'why', 'with', 'about', 'there', 'their', 'they', 'these', 'those', 'can', 'into'
+]);
+
+/**
+ * Lowercased search terms. Plurals are folded ("reactions" finds "reaction"); anything
+ * beyond that would need a real stemmer.
+ */
+export function searchTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words
+    .filter(w => w.length > 1 && !STOP_WORDS.has(w))
+    .map(w => w.length <= 3 ? w : w.endsWith('ies') ? `${w.slice(0, -3)}y` : w.replace(/([^s])s$/, '$1'));
+}
+
+export function buildBlockIndex(pages: PageContent[]): BlockIndex {
+  const blocks: IndexedBlock[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  pages.forEach((page, pageIdx) => {
+    page.blocks.forEach((block, blockIdx) => {
+      if (block.furniture) return;
+      const words = searchTerms(block.content);
+      if (words.length === 0) return;
+      const terms = new Map<string, number>();
+      for (const w of words) terms.set(w, (terms.get(w) || 0) + 1);
+      for (const term of terms.keys()) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      blocks.push({ page: pageIdx, block: blockIdx, terms, length: words.length });
+    });
+  });
+
+  const averageLength = blocks.reduce((acc, b) => acc + b.length, 0) / Math.max(1, blocks.length);
+  return { blocks, documentFrequency, averageLength };
+}
+
+/**
+ * Best-matching blocks for a query, highest score first.
+ */
+export function searchBlocks(index: BlockIndex, query: string, limit: number = 8): BlockMatch[] {
+  const terms = [...new Set(searchTerms(query))];
+  if (terms.length === 0) return [];
+  const n = index.blocks.length;
+
+  const matches: BlockMatch[] = [];
+  for (const block of index.blocks) {
+    let score = 0;
+    for (const term of terms) {
+      const tf = block.terms.get(term);
+      if (!tf) continue;
+      const df = index.documentFrequency.get(term)!;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * block.length / index.averageLength));
+    }
+    if (score > 0) matches.push({ page: block.page, block: block.block, score });
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
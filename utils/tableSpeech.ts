@@ -0,0 +1,43 @@
+import { TableGrid } from '../types';
+
+/**
+ * Spoken forms of table blocks: whole rows read with their column headings for playback,
+ * and single cells announced with their row and column while stepping through a table.
+ * Rows are numbered from the first row below the headings.
+ */
+
+/** The line of a table block's content that holds this row. */
+export function rowText(cells: string[]): string {
+  return cells.filter(Boolean).join(', ');
+}
+
+function rowNumber(table: TableGrid, row: number): number {
+  return table.header ? row : row + 1;
+}
+
+function heading(table: TableGrid, column: number): string {
+  return table.header ? table.rows[0][column] || '' : '';
+}
+
+/**
+ * "Row 2, Quarter: Q2, Revenue: 4.1 million." The heading row is read as the list of columns.
+ */
+export function describeRow(table: TableGrid, row: number): string {
+  const cells = table.rows[row];
+  if (table.header && row === 0) {
+    return `Table with ${cells.length} columns: ${rowText(cells)}.`;
+  }
+  const values = cells
+    .map((cell, column) => cell && (heading(table, column) ? `${heading(table, column)}: ${cell}` : cell))
+    .filter(Boolean);
+  return `Row ${rowNumber(table, row)}, ${values.join(', ')}.`;
+}
+
+/**
+ * "Row 2, Revenue: 4.1 million", or the column number where there is no heading.
+ */
+export function describeCell(table: TableGrid, row: number, column: number): string {
+  const cell = table.rows[row][column] || 'empty';
+  if (table.header && row === 0) return `Column ${column + 1} heading: ${cell}`;
+  return `Row ${rowNumber(table, row)}, ${heading(table, column) || `column ${column + 1}`}: ${cell}`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Split text into sentences, preferring Intl.Segmenter and falling back to punctuation.
+ */
+export function splitSentences(text: string): string[] {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) return [];
+
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(normalized), s => s.segment.trim()).filter(Boolean);
+  }
+
+  return (normalized.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || [normalized])
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Break a single over-long sentence at clause punctuation, then at whitespace.
+ */
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let rest = sentence;
+
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '), window.lastIndexOf(': '));
+    if (cut < maxChars * 0.4) cut = window.lastIndexOf(' ');
+    if (cut <= 0) cut = maxChars - 1;
+
+    parts.push(rest.slice(0, cut + 1).trim());
+    rest = rest.slice(cut + 1).trim();
+  }
+
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Group sentences into synthesis chunks of at most `maxChars`. The first chunk is
+ * kept to a single sentence so audio can start as soon as possible.
+ */
+export function splitIntoChunks(text: string, maxChars: number = 400): string[] {
+  const sentences = splitSentences(text).flatMap(s => s.length > maxChars ? splitLongSentence(s, maxChars) : [s]);
+  const chunks: string[] = [];
+  let current = '';
+
+  sentences.forEach((sentence) => {
+    if (chunks.length === 0 && !current) {
+      chunks.push(sentence);
+      return;
+    }
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      chunks.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  });
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Index of the first word of each sentence, counted over the whole text's words.
+ */
+export function sentenceWordStarts(text: string): number[] {
+  let offset = 0;
+  return splitSentences(text).map(sentence => {
+    const start = offset;
+    offset += sentence.split(/\s+/).filter(Boolean).length;
+    return start;
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * Word-level diff between a page's raw text and its cleaned version, for spotting
+ * content the layout model dropped or invented.
+ */
+
+export type DiffKind = 'same' | 'removed' | 'added';
+
+export interface DiffSegment {
+  kind: DiffKind;
+  text: string;
+}
+
+// Beyond this many cells the LCS table is not built and the middle is shown as replaced.
+const MAX_TABLE_CELLS = 4_000_000;
+
+// Words compare without case and punctuation, so quote and comma fixes are not reported.
+const comparable = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+function pushSegment(segments: DiffSegment[], kind: DiffKind, word: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.kind === kind) last.text += ` ${word}`;
+  else segments.push({ kind, text: word });
+}
+
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const ka = a.map(comparable);
+  const kb = b.map(comparable);
+  const segments: DiffSegment[] = [];
+
+  // Common prefix and suffix need no table.
+  let start = 0;
+  while (start < a.length && start < b.length && ka[start] === kb[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && ka[endA - 1] === kb[endB - 1]) { endA--; endB--; }
+
+  a.slice(0, start).forEach(w => pushSegment(segments, 'same', w));
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_TABLE_CELLS) {
+    a.slice(start, endA).forEach(w => pushSegment(segments, 'removed', w));
+    b.slice(start, endB).forEach(w => pushSegment(segments, 'added', w));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of the suffixes starting at i and j.
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = ka[start + i] === kb[start + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (ka[start + i] === kb[start + j]) {
+        pushSegment(segments, 'same', b[start + j]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        pushSegment(segments, 'removed', a[start + i++]);
+      } else {
+        pushSegment(segments, 'added', b[start + j++]);
+      }
+    }
+    for (; i < n; i++) pushSegment(segments, 'removed', a[start + i]);
+    for (; j < m; j++) pushSegment(segments, 'added', b[start + j]);
+  }
+
+  b.slice(endB).forEach(w => pushSegment(segments, 'same', w));
+  return segments;
+}
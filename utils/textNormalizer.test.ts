@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_NORMALIZATION_RULES, normalizeForSpeech } from './textNormalizer';
+
+const speak = (text: string) => normalizeForSpeech(text, { lexicon: [], rules: DEFAULT_NORMALIZATION_RULES, mathVerbosity: 'standard' });
+
+describe('normalizeForSpeech', () => {
+  it('reads a hyphen between numbers as a range', () => {
+    expect(speak('From 1990-2000 prices rose.')).toBe('From nineteen ninety to two thousand prices rose.');
+    expect(speak('The 2019-2020 season')).toBe('The twenty nineteen to twenty twenty season');
+    expect(speak('Read pages 10-20.')).toBe('Read pages ten to twenty.');
+    expect(speak('1.5-2.5 mm')).toBe('one point five to two point five millimeters');
+  });
+
+  it('reads dashes between numbers as a range', () => {
+    expect(speak('1990–1995')).toBe('nineteen ninety to nineteen ninety-five');
+  });
+
+  it('leaves subtraction, phone numbers, dates and hyphenated names alone', () => {
+    expect(speak('10 - 5 = 5')).toBe('ten - five = five');
+    expect(speak('Call 555-123-4567')).not.toContain(' to ');
+    expect(speak('On 2020-01-05 we met')).toBe('On January fifth, twenty twenty we met');
+    expect(speak('COVID-19 cases')).toBe('COVID-nineteen cases');
+  });
+
+  it('reads decades as plurals', () => {
+    expect(speak('In the 1990s')).toBe('In the nineteen nineties');
+    expect(speak("the 1800's")).toBe('the eighteen hundreds');
+    expect(speak('the 2000s and 2010s')).toBe('the two thousands and twenty tens');
+    expect(speak("the '80s")).toBe('the eighties');
+  });
+
+  it('reads dotted versions one part at a time', () => {
+    expect(speak('Version 3.2.1 is out')).toBe('Version three point two point one is out');
+    expect(speak('It cost 3.5 dollars')).toBe('It cost three point five dollars');
+  });
+
+  it('leaves digits inside names that mix letters and numbers alone', () => {
+    expect(speak('Q3 2024 results')).toBe('Q3 twenty twenty-four results');
+    expect(speak('Update to v1.2.3 now')).toBe('Update to v1.2.3 now');
+    expect(speak('MP3 files')).toBe('MP3 files');
+    expect(speak('H2O')).toBe('H2O');
+    expect(speak('A4 paper')).toBe('A4 paper');
+    expect(speak('GPT4')).toBe('GPT4');
+  });
+
+  it('reads the edition after a standard number separately', () => {
+    expect(speak('ISO 9001:2015')).toBe('ISO nine thousand one twenty fifteen');
+  });
+});
@@ -0,0 +1,178 @@
+import { BlockType } from '../types';
+import { mathToSpeech, MathVerbosity } from './mathSpeech';
+import { numberToWords, ordinalToWords, yearToWords } from './numberWords';
+
+/**
+ * Text normalization applied to block text right before synthesis: the user's
+ * pronunciation lexicon first, then rule-based expansion of abbreviations,
+ * dates, units and numbers. Math blocks are read out by the math converter
+ * before either. Displayed text is never changed.
+ */
+
+export interface LexiconEntry {
+  id: string;
+  /** Word or phrase to replace, or a regular expression when `regex` is set. */
+  match: string;
+  /** Spoken form; with `regex`, may use $1-style group references. */
+  replacement: string;
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface NormalizationRules {
+  abbreviations: boolean;
+  dates: boolean;
+  units: boolean;
+  numbers: boolean;
+}
+
+export interface SpeechNormalization {
+  lexicon: LexiconEntry[];
+  rules: NormalizationRules;
+  mathVerbosity: MathVerbosity;
+}
+
+export const DEFAULT_NORMALIZATION_RULES: NormalizationRules = {
+  abbreviations: true,
+  dates: true,
+  units: true,
+  numbers: true
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile an entry, or return null when its pattern is not a valid regular expression.
+ * Plain entries only match whole words, so "AI" does not fire inside "AIM".
+ */
+export function compileLexiconEntry(entry: LexiconEntry): RegExp | null {
+  if (!entry.match) return null;
+  const flags = entry.caseSensitive ? 'gu' : 'giu';
+  try {
+    return entry.regex
+      ? new RegExp(entry.match, flags)
+      : new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(entry.match)}(?![\\p{L}\\p{N}])`, flags);
+  } catch {
+    return null;
+  }
+}
+
+export function applyLexicon(text: string, lexicon: LexiconEntry[]): string {
+  return lexicon.reduce((acc, entry) => {
+    const pattern = compileLexiconEntry(entry);
+    // Plain replacements are literal; only regex entries may reference groups.
+    if (!pattern) return acc;
+    return entry.regex ? acc.replace(pattern, entry.replacement) : acc.replace(pattern, () => entry.replacement);
+  }, text);
+}
+
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\be\.g\.(?=\s|,|$)/gi, 'for example'],
+  [/\bi\.e\.(?=\s|,|$)/gi, 'that is'],
+  [/\betc\./gi, 'et cetera'],
+  [/\bvs\.?(?=\s)/gi, 'versus'],
+  [/\bapprox\./gi, 'approximately'],
+  [/\bDr\.(?=\s+\p{Lu})/gu, 'Doctor'],
+  [/\bMr\.(?=\s)/g, 'Mister'],
+  [/\bMrs\.(?=\s)/g, 'Missus'],
+  [/\bMs\.(?=\s)/g, 'Miz'],
+  [/\bProf\.(?=\s)/g, 'Professor'],
+  [/\bFigs?\.(?=\s*\d)/g, 'Figure'],
+  [/\bEq\.(?=\s*\(?\d)/g, 'Equation'],
+  [/\bNo\.(?=\s*\d)/g, 'Number'],
+  [/\bpp\.(?=\s*\d)/g, 'pages'],
+  [/\bp\.(?=\s*\d)/g, 'page'],
+  [/\bet al\./g, 'and colleagues']
+];
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Unit symbol -> [singular, plural]. Only matched directly after a number.
+const UNITS: Record<string, [string, string]> = {
+  km: ['kilometer', 'kilometers'], m: ['meter', 'meters'], cm: ['centimeter', 'centimeters'], mm: ['millimeter', 'millimeters'],
+  mi: ['mile', 'miles'], ft: ['foot', 'feet'],
+  kg: ['kilogram', 'kilograms'], g: ['gram', 'grams'], mg: ['milligram', 'milligrams'], lb: ['pound', 'pounds'], lbs: ['pound', 'pounds'],
+  l: ['liter', 'liters'], ml: ['milliliter', 'milliliters'],
+  'km/h': ['kilometer per hour', 'kilometers per hour'], kph: ['kilometer per hour', 'kilometers per hour'], mph: ['mile per hour', 'miles per hour'],
+  ms: ['millisecond', 'milliseconds'], min: ['minute', 'minutes'], hr: ['hour', 'hours'], hrs: ['hour', 'hours'],
+  kb: ['kilobyte', 'kilobytes'], mb: ['megabyte', 'megabytes'], gb: ['gigabyte', 'gigabytes'], tb: ['terabyte', 'terabytes'],
+  hz: ['hertz', 'hertz'], khz: ['kilohertz', 'kilohertz'], mhz: ['megahertz', 'megahertz'], ghz: ['gigahertz', 'gigahertz'],
+  w: ['watt', 'watts'], kw: ['kilowatt', 'kilowatts'], kwh: ['kilowatt hour', 'kilowatt hours'], v: ['volt', 'volts'], mah: ['milliamp hour', 'milliamp hours'],
+  '°c': ['degree Celsius', 'degrees Celsius'], '°f': ['degree Fahrenheit', 'degrees Fahrenheit'], '°': ['degree', 'degrees'],
+  '%': ['percent', 'percent']
+};
+const UNIT_PATTERN = new RegExp(
+  `(\\d[\\d,]*(?:\\.\\d+)?)\\s?(${Object.keys(UNITS).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+  'giu'
+);
+
+const CURRENCIES: Record<string, [string, string]> = {
+  '$': ['dollar', 'dollars'], '€': ['euro', 'euros'], '£': ['pound', 'pounds'], '¥': ['yen', 'yen']
+};
+const MAGNITUDES: Record<string, string> = { k: 'thousand', m: 'million', bn: 'billion', b: 'billion', t: 'trillion' };
+
+const plural = (amount: string, [one, many]: [string, string]) => (Number(amount.replace(/,/g, '')) === 1 ? one : many);
+
+function expandAbbreviations(text: string): string {
+  return ABBREVIATIONS.reduce((acc, [pattern, spoken]) => acc.replace(pattern, spoken), text);
+}
+
+function expandDates(text: string): string {
+  // ISO dates; other numeric formats are ambiguous between locales and left alone.
+  return text.replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, y, m, d) => {
+    const month = MONTHS[Number(m) - 1];
+    const day = Number(d);
+    if (!month || day < 1 || day > 31) return match;
+    return `${month} ${ordinalToWords(String(day))}, ${yearToWords(Number(y))}`;
+  });
+}
+
+function expandUnits(text: string): string {
+  return text
+    .replace(/([$€£¥])\s?(\d[\d,]*(?:\.\d+)?)(?:\s?(k|m|bn|b|t)\b|\s(thousand|million|billion|trillion)\b)?/gi, (_, symbol, amount, short, long) => {
+      const magnitude = short ? MAGNITUDES[short.toLowerCase()] : long;
+      const unit = CURRENCIES[symbol];
+      return magnitude ? `${amount} ${magnitude} ${unit[1]}` : `${amount} ${plural(amount, unit)}`;
+    })
+    .replace(UNIT_PATTERN, (match, amount, unit) => {
+      const names = UNITS[unit.toLowerCase()];
+      return names ? `${amount} ${plural(amount, names)}` : match;
+    });
+}
+
+// "nineteen ninety" -> "nineteen nineties", "two thousand" -> "two thousands".
+const pluralizeLastWord = (words: string) => words.replace(/y$/, 'ie') + 's';
+
+function expandNumbers(text: string): string {
+  // Numbers are only read inside bare numeric tokens: digits attached to letters ("Q3", "v1.2.3",
+  // "MP3", "H2O", "GPT4") are names, and are left as written.
+  return text
+    // Versions and other dotted sequences: 3.2.1
+    .replace(/(?<![\p{L}\d.])\d+(?:\.\d+){2,}(?![\d.]*[\p{L}\d])/gu, version => version.split('.').map(numberToWords).join(' point '))
+    // Ranges: 1990–1995, 10-20. A hyphen only counts between two bare numbers, so
+    // subtraction ("10 - 5"), phone numbers and dates (2020-01-05) are left alone.
+    .replace(/(\d)\s?[–—]\s?(?=\d)/g, '$1 to ')
+    .replace(/(?<![\p{L}\d.,-])(\d+(?:[.,]\d+)*)-(?=\d+(?:[.,]\d+)*(?![\d-]|[.,]\d))/gu, '$1 to ')
+    // Editions after a colon: ISO 9001:2015
+    .replace(/(?<=\d):(?=\d{4}(?!\d))/g, ' ')
+    // Decades: 1990s, 1800's, '80s
+    .replace(/(?<![\p{L}\d.,])((?:1[1-9]|20)\d0)'?s(?![\p{L}\d])/gu, (_, year) => pluralizeLastWord(yearToWords(Number(year))))
+    .replace(/(?<![\p{L}\d.,])'?([1-9]0)'?s(?![\p{L}\d])/gu, (_, decade) => pluralizeLastWord(numberToWords(decade)))
+    .replace(/(?<![\p{L}\d.,])(\d{1,3}(?:,\d{3})*|\d+)(st|nd|rd|th)(?![\p{L}\d])/giu, (_, n) => ordinalToWords(n.replace(/,/g, '')))
+    .replace(/(?<![\p{L}\d.,])(?:1[1-9]|20)\d{2}(?!\d|[,.]\d|%|\p{L})/gu, year => yearToWords(Number(year)))
+    .replace(/(?<!\p{L}[\d.,]*)(?:[-−]?\d{1,3}(?:,\d{3})+(?:\.\d+)?|[-−]?\d+(?:\.\d+)?)(?![\d.,]*\p{L})/gu, (n, offset: number, whole: string) => {
+      // A hyphen between two words or numbers ("COVID-19", "3-4") is not a minus sign.
+      const signed = /^[-−]/.test(n) && offset > 0 && /[\p{L}\p{N}]/u.test(whole[offset - 1]);
+      return signed ? `${n[0]}${numberToWords(n.slice(1))}` : numberToWords(n);
+    });
+}
+
+export function normalizeForSpeech(text: string, { lexicon, rules, mathVerbosity }: SpeechNormalization, blockType?: BlockType): string {
+  let result = blockType === 'math' ? mathToSpeech(text, mathVerbosity) : text;
+  result = applyLexicon(result, lexicon);
+  if (rules.abbreviations) result = expandAbbreviations(result);
+  if (rules.dates) result = expandDates(result);
+  if (rules.units) result = expandUnits(result);
+  if (rules.numbers) result = expandNumbers(result);
+  return result;
+}
@@ -0,0 +1,61 @@
+/**
+ * Change the tempo of mono PCM without changing its pitch (WSOLA: windowed
+ * overlap-add, with each frame shifted to where it best continues the last one).
+ */
+
+const FRAME_SECONDS = 0.03;
+const SEARCH_SECONDS = 0.01;
+
+/**
+ * `tempo` > 1 speeds speech up; the result is about `samples.length / tempo` long.
+ */
+export function timeStretch(samples: Float32Array, tempo: number, sampleRate: number): Float32Array {
+  if (Math.abs(tempo - 1) < 0.01 || samples.length === 0) return samples;
+
+  const frame = Math.max(64, Math.round(sampleRate * FRAME_SECONDS) & ~1);
+  const synthesisHop = frame / 2;
+  const analysisHop = synthesisHop * tempo;
+  const search = Math.round(sampleRate * SEARCH_SECONDS);
+  const outLength = Math.ceil(samples.length / tempo);
+
+  const window = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame);
+
+  const out = new Float32Array(outLength + frame);
+  const weight = new Float32Array(outLength + frame);
+  let previous = 0;
+
+  for (let k = 0; ; k++) {
+    const outPos = k * synthesisHop;
+    const nominal = Math.round(k * analysisHop);
+    if (outPos >= outLength || nominal + frame > samples.length) break;
+
+    let position = nominal;
+    if (k > 0) {
+      // The input that would naturally follow the previous frame; pick the candidate most like it.
+      const natural = previous + synthesisHop;
+      let bestScore = -Infinity;
+      for (let d = -search; d <= search; d += 2) {
+        const candidate = nominal + d;
+        if (candidate < 0 || candidate + frame > samples.length || natural + synthesisHop > samples.length) continue;
+        let score = 0;
+        for (let i = 0; i < synthesisHop; i += 4) score += samples[natural + i] * samples[candidate + i];
+        if (score > bestScore) {
+          bestScore = score;
+          position = candidate;
+        }
+      }
+    }
+
+    for (let i = 0; i < frame; i++) {
+      out[outPos + i] += samples[position + i] * window[i];
+      weight[outPos + i] += window[i];
+    }
+    previous = position;
+  }
+
+  for (let i = 0; i < out.length; i++) {
+    if (weight[i] > 1e-3) out[i] /= weight[i];
+  }
+  return out.subarray(0, outLength);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { splitDialogue } from './voiceCasting';
+
+describe('splitDialogue', () => {
+  it('separates quoted speech from narration', () => {
+    expect(splitDialogue('She said, “Come in.” Then she left.')).toEqual([
+      { text: 'She said,', quoted: false },
+      { text: '“Come in.”', quoted: true },
+      { text: 'Then she left.', quoted: false }
+    ]);
+    expect(splitDialogue('"Wait," he said.')).toEqual([
+      { text: '"Wait,"', quoted: true },
+      { text: 'he said.', quoted: false }
+    ]);
+  });
+
+  it('does not read the rest of the text as dialogue after a stray straight quote', () => {
+    expect(splitDialogue('The sign said "closed and nobody came back.')).toEqual([
+      { text: 'The sign said "closed and nobody came back.', quoted: false }
+    ]);
+  });
+
+  it('ignores straight quotes after digits', () => {
+    expect(splitDialogue('A 12" screen beside a 15" one.')).toEqual([{ text: 'A 12" screen beside a 15" one.', quoted: false }]);
+    expect(splitDialogue('The 12" pipe, "he said," is fine.').filter(s => s.quoted)).toEqual([{ text: '"he said,"', quoted: true }]);
+  });
+
+  it('closes an open quote at the end of its paragraph', () => {
+    expect(splitDialogue('“I will go.\nLater that day the rain stopped.')).toEqual([
+      { text: '“I will go.', quoted: true },
+      { text: 'Later that day the rain stopped.', quoted: false }
+    ]);
+  });
+
+  it('runs a curly quote left open at the end of a chunk to the end', () => {
+    expect(splitDialogue('He turned. “Not yet, not while')).toEqual([
+      { text: 'He turned.', quoted: false },
+      { text: '“Not yet, not while', quoted: true }
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { BlockType, SpeakerVoice, VoiceCasting, VoiceRole } from '../types';
+
+/**
+ * Voice casting: which voice reads which kind of text. Roles without a voice of
+ * their own fall back to the voice picked in the dock.
+ */
+
+export const VOICE_ROLES: { role: VoiceRole; label: string; description: string }[] = [
+  { role: 'body', label: 'Body', description: 'Paragraphs, lists, tables and math' },
+  { role: 'heading', label: 'Headings', description: 'Chapter and section titles' },
+  { role: 'quote', label: 'Quoted speech', description: 'Dialogue inside quotation marks' },
+  { role: 'caption', label: 'Captions', description: 'Figure descriptions and sidebars' }
+];
+
+// Speaker labels for multi-speaker synthesis; the server only accepts plain letters.
+const NARRATOR = 'Narrator';
+const SPEAKER = 'Speaker';
+
+const ROLE_BY_TYPE: Partial<Record<BlockType, VoiceRole>> = {
+  heading: 'heading',
+  'chart-desc': 'caption',
+  sidebar: 'caption'
+};
+
+export function roleForBlock(type: BlockType): VoiceRole {
+  return ROLE_BY_TYPE[type] || 'body';
+}
+
+export function voiceForRole(casting: VoiceCasting | undefined, role: VoiceRole, fallback: string): string {
+  return casting?.[role] || (role === 'body' ? fallback : casting?.body || fallback);
+}
+
+export interface DialogueSegment {
+  text: string;
+  quoted: boolean;
+}
+
+const QUOTE_PAIRS: Record<string, string> = { '"': '"', '“': '”', '«': '»' };
+
+/**
+ * Split text into narration and quoted speech. Quotes close at a line break (the end of a
+ * paragraph). A curly quote or guillemet left open runs to the end of its paragraph, as when
+ * a chunk boundary falls inside dialogue; a straight quote only counts once it is closed,
+ * so a stray one does not turn the rest of the text into dialogue. A straight quote right
+ * after a digit is an inch or seconds mark (12", 4'30"), not a quote.
+ */
+export function splitDialogue(text: string): DialogueSegment[] {
+  const spans: [number, number][] = [];
+  let open = -1;
+  let closing: string | null = null;
+
+  const closeAt = (end: number) => {
+    if (closing !== null && text[open] !== '"') spans.push([open, end]);
+    closing = null;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') closeAt(i);
+    else if (ch === '"' && /\d/.test(text[i - 1] || '')) continue;
+    else if (closing === null && QUOTE_PAIRS[ch]) {
+      open = i;
+      closing = QUOTE_PAIRS[ch];
+    } else if (closing !== null && ch === closing) {
+      spans.push([open, i + 1]);
+      closing = null;
+    }
+  }
+  closeAt(text.length);
+
+  const segments: DialogueSegment[] = [];
+  const push = (from: number, to: number, quoted: boolean) => {
+    const part = text.slice(from, to).trim();
+    if (part) segments.push({ text: part, quoted });
+  };
+  let start = 0;
+  spans.forEach(([from, to]) => {
+    push(start, from, false);
+    push(from, to, true);
+    start = to;
+  });
+  push(start, text.length, false);
+  return segments;
+}
+
+export interface CastText {
+  /** What to synthesize: the text itself, or a speaker-labelled transcript when `speakers` is set. */
+  text: string;
+  voice: string;
+  speakers?: SpeakerVoice[];
+}
+
+/**
+ * Pick the voice for a piece of a block. With `multiSpeaker`, text that mixes narration
+ * and quoted speech cast to a different voice becomes a two-speaker transcript.
+ */
+export function castText(
+  text: string,
+  type: BlockType,
+  casting: VoiceCasting | undefined,
+  fallback: string,
+  multiSpeaker: boolean
+): CastText {
+  const voice = voiceForRole(casting, roleForBlock(type), fallback);
+  const quoteVoice = casting?.quote;
+  if (!quoteVoice || quoteVoice === voice || type === 'heading' || type === 'math') return { text, voice };
+
+  const segments = splitDialogue(text);
+  if (!segments.some(s => s.quoted)) return { text, voice };
+  if (segments.every(s => s.quoted)) return { text, voice: quoteVoice };
+  if (!multiSpeaker) return { text, voice };
+
+  const lines = segments.map(s => `${s.quoted ? SPEAKER : NARRATOR}: ${s.text}`);
+  return {
+    text: `TTS the following conversation between ${NARRATOR} and ${SPEAKER}:\n${lines.join('\n')}`,
+    voice,
+    speakers: [{ speaker: NARRATOR, voice }, { speaker: SPEAKER, voice: quoteVoice }]
+  };
+}
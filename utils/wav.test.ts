@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { stretchPcm16 } from './wav';
+
+const SAMPLE_RATE = 24000;
+
+function tone(hz: number, seconds: number): Uint8Array {
+  const samples = Int16Array.from({ length: SAMPLE_RATE * seconds }, (_, i) => Math.round(Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE) * 16000));
+  return new Uint8Array(samples.buffer);
+}
+
+// Upward zero crossings per second: the tone's frequency.
+function pitchOf(pcm: Uint8Array): number {
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, pcm.byteLength / 2);
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) if (samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+  return crossings / (samples.length / SAMPLE_RATE);
+}
+
+describe('stretchPcm16', () => {
+  it('changes the length of speech but not its pitch', () => {
+    const input = tone(220, 1);
+
+    const faster = stretchPcm16(input, 1.5, SAMPLE_RATE);
+    const slower = stretchPcm16(input, 0.75, SAMPLE_RATE);
+
+    expect(faster.byteLength / 2).toBe(SAMPLE_RATE / 1.5);
+    expect(slower.byteLength / 2).toBe(SAMPLE_RATE / 0.75);
+    expect(pitchOf(faster)).toBeCloseTo(220, -1);
+    expect(pitchOf(slower)).toBeCloseTo(220, -1);
+  });
+
+  it('returns the input at normal speed', () => {
+    const input = tone(220, 0.1);
+    expect(stretchPcm16(input, 1, SAMPLE_RATE)).toBe(input);
+  });
+});
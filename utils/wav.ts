@@ -0,0 +1,127 @@
+import { timeStretch } from './timeStretch';
+
+/**
+ * Minimal RIFF/WAVE writer for 16-bit PCM, with optional cue points and labels
+ * (the `cue ` + `LIST/adtl` chunks most players read as chapter markers).
+ */
+
+export interface CueMarker {
+  /** Offset from the start of the audio, in sample frames. */
+  frame: number;
+  label: string;
+}
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+}
+
+/**
+ * Header for a PCM WAV whose `data` chunk is `dataBytes` long and is followed by `trailingBytes` of extra chunks.
+ */
+export function encodeWavHeader(
+  dataBytes: number,
+  sampleRate: number,
+  numChannels: number = 1,
+  trailingBytes: number = 0
+): Uint8Array {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const blockAlign = numChannels * 2;
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes + trailingBytes, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  return new Uint8Array(header);
+}
+
+/**
+ * `cue ` chunk plus a `LIST` chunk of `labl` sub-chunks naming each cue point.
+ */
+export function encodeCueChunks(markers: CueMarker[]): Uint8Array {
+  if (markers.length === 0) return new Uint8Array(0);
+
+  const encoder = new TextEncoder();
+  const labels = markers.map(m => encoder.encode(`${m.label}\0`));
+  const cueSize = 4 + markers.length * 24;
+  const listSize = 4 + labels.reduce((acc, l) => acc + 12 + l.length + (l.length % 2), 0);
+  const buffer = new ArrayBuffer(8 + cueSize + 8 + listSize);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let offset = 0;
+
+  writeAscii(view, offset, 'cue ');
+  view.setUint32(offset + 4, cueSize, true);
+  view.setUint32(offset + 8, markers.length, true);
+  offset += 12;
+  markers.forEach((m, i) => {
+    view.setUint32(offset, i + 1, true);
+    view.setUint32(offset + 4, m.frame, true);
+    writeAscii(view, offset + 8, 'data');
+    view.setUint32(offset + 12, 0, true);
+    view.setUint32(offset + 16, 0, true);
+    view.setUint32(offset + 20, m.frame, true);
+    offset += 24;
+  });
+
+  writeAscii(view, offset, 'LIST');
+  view.setUint32(offset + 4, listSize, true);
+  writeAscii(view, offset + 8, 'adtl');
+  offset += 12;
+  labels.forEach((label, i) => {
+    writeAscii(view, offset, 'labl');
+    view.setUint32(offset + 4, 4 + label.length, true);
+    view.setUint32(offset + 8, i + 1, true);
+    bytes.set(label, offset + 12);
+    offset += 12 + label.length + (label.length % 2);
+  });
+
+  return bytes;
+}
+
+/**
+ * Speed up or slow down 16-bit mono PCM by `tempo` without changing its pitch,
+ * the same stretch live playback applies.
+ */
+export function stretchPcm16(data: Uint8Array, tempo: number, sampleRate: number): Uint8Array {
+  if (tempo === 1) return data;
+
+  const input = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const samples = Float32Array.from(input, v => v / 32768);
+  const stretched = timeStretch(samples, tempo, sampleRate);
+  const output = Int16Array.from(stretched, v => Math.max(-32768, Math.min(32767, Math.round(v * 32768))));
+
+  return new Uint8Array(output.buffer);
+}
+
+/**
+ * CUE sheet timestamp: minutes, seconds and 1/75 s frames.
+ */
+export function formatCueTime(seconds: number): string {
+  const totalFrames = Math.round(seconds * 75);
+  const mm = Math.floor(totalFrames / (75 * 60));
+  const ss = Math.floor(totalFrames / 75) % 60;
+  const ff = totalFrames % 75;
+  return [mm, ss, ff].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+export function buildCueSheet(title: string, wavFileName: string, markers: CueMarker[], sampleRate: number): string {
+  const quote = (s: string) => s.replace(/"/g, "'");
+  const lines = [`TITLE "${quote(title)}"`, `FILE "${quote(wavFileName)}" WAVE`];
+  markers.forEach((m, i) => {
+    lines.push(`  TRACK ${String(i + 1).padStart(2, '0')} AUDIO`);
+    lines.push(`    TITLE "${quote(m.label)}"`);
+    lines.push(`    INDEX 01 ${formatCueTime(m.frame / sampleRate)}`);
+  });
+  return lines.join('\n') + '\n';
+}
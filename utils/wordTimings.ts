@@ -0,0 +1,125 @@
+/**
+ * Word segmentation and timing estimation for karaoke-style highlighting.
+ */
+
+export interface WordToken {
+  text: string;
+  /** Character offsets into the source string. */
+  start: number;
+  end: number;
+}
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+const WINDOW_SECONDS = 0.02;
+const MIN_SILENCE_SECONDS = 0.12;
+const SILENCE_RATIO = 0.08;
+
+export function tokenizeWords(text: string): WordToken[] {
+  const words: WordToken[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    words.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return words;
+}
+
+/**
+ * Index of the word containing (or immediately preceding) a character offset.
+ */
+export function wordIndexAt(words: WordToken[], charIndex: number): number {
+  let idx = 0;
+  for (let i = 0; i < words.length && words[i].start <= charIndex; i++) idx = i;
+  return idx;
+}
+
+/**
+ * Find pauses in mono PCM: runs of 20 ms windows whose RMS stays well below the
+ * clip's loudest window for at least `minSilence` seconds.
+ */
+export function detectSilences(
+  samples: Float32Array,
+  sampleRate: number,
+  minSilence: number = MIN_SILENCE_SECONDS
+): TimeRange[] {
+  const windowSize = Math.max(1, Math.round(sampleRate * WINDOW_SECONDS));
+  const windows = Math.ceil(samples.length / windowSize);
+  const rms = new Float32Array(windows);
+  let peak = 0;
+
+  for (let w = 0; w < windows; w++) {
+    let sum = 0;
+    const from = w * windowSize;
+    const to = Math.min(samples.length, from + windowSize);
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    rms[w] = Math.sqrt(sum / Math.max(1, to - from));
+    peak = Math.max(peak, rms[w]);
+  }
+
+  const threshold = peak * SILENCE_RATIO;
+  const silences: TimeRange[] = [];
+  let runStart = -1;
+
+  for (let w = 0; w <= windows; w++) {
+    const quiet = w < windows && rms[w] <= threshold;
+    if (quiet && runStart < 0) runStart = w;
+    if (!quiet && runStart >= 0) {
+      const start = runStart * WINDOW_SECONDS;
+      const end = Math.min(samples.length / sampleRate, w * WINDOW_SECONDS);
+      if (end - start >= minSilence) silences.push({ start, end });
+      runStart = -1;
+    }
+  }
+
+  return silences;
+}
+
+/**
+ * Estimate when each word starts (seconds from the beginning of the clip).
+ *
+ * Speech time is the clip minus detected pauses; words are spread over it in
+ * proportion to their length, so words after a pause land after that pause.
+ */
+export function estimateWordTimings(words: WordToken[], samples: Float32Array, sampleRate: number): number[] {
+  if (words.length === 0) return [];
+
+  const duration = samples.length / sampleRate;
+  const silences = detectSilences(samples, sampleRate);
+
+  // Voiced intervals: the clip with every pause cut out.
+  const voiced: TimeRange[] = [];
+  let cursor = 0;
+  silences.forEach(s => {
+    if (s.start > cursor) voiced.push({ start: cursor, end: s.start });
+    cursor = s.end;
+  });
+  if (cursor < duration) voiced.push({ start: cursor, end: duration });
+  if (voiced.length === 0) voiced.push({ start: 0, end: duration });
+
+  const voicedTotal = voiced.reduce((acc, v) => acc + (v.end - v.start), 0);
+  const weights = words.map(w => (w.text.replace(/[^\p{L}\p{N}]/gu, '').length || 1) + 1);
+  const weightTotal = weights.reduce((acc, w) => acc + w, 0);
+
+  const toClipTime = (voicedOffset: number): number => {
+    let remaining = voicedOffset;
+    for (const range of voiced) {
+      const length = range.end - range.start;
+      if (remaining < length) return range.start + remaining;
+      remaining -= length;
+    }
+    return voiced[voiced.length - 1].end;
+  };
+
+  const timings: number[] = [];
+  let acc = 0;
+  weights.forEach(w => {
+    // Nudge by a hair so a word sitting exactly on an interval boundary maps after the pause.
+    timings.push(toClipTime((acc / weightTotal) * voicedTotal + 1e-6));
+    acc += w;
+  });
+  return timings;
+}
@@ -0,0 +1,81 @@
+/**
+ * Minimal ZIP reader for EPUB and DOCX containers. Reads the central directory
+ * and inflates entries with the browser's DecompressionStream, so documents are
+ * unpacked locally without an extra dependency. ZIP64 and encryption are not supported.
+ */
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  names: string[];
+  has(name: string): boolean;
+  readBytes(name: string): Promise<Uint8Array>;
+  readText(name: string): Promise<string>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB.
+  const lowest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= lowest; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error("This file is not a valid ZIP container.");
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function openZip(buffer: ArrayBuffer): ZipArchive {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const eocd = findEndOfCentralDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) throw new Error("ZIP64 archives are not supported.");
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error("Corrupted ZIP central directory.");
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const readBytes = async (name: string): Promise<Uint8Array> => {
+    const entry = entries.get(name);
+    if (!entry) throw new Error(`Missing ${name} in archive.`);
+    const local = entry.localHeaderOffset;
+    if (view.getUint32(local, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupted ZIP entry ${name}.`);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return inflateRaw(data);
+    throw new Error(`Unsupported ZIP compression method ${entry.method}.`);
+  };
+
+  return {
+    names: [...entries.keys()],
+    has: (name) => entries.has(name),
+    readBytes,
+    readText: async (name) => decoder.decode(await readBytes(name))
+  };
+}
@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_APP_ACCESS_TOKEN?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// The pdf.js worker build ships without type declarations.
+declare module 'pdfjs-dist/build/pdf.worker.mjs' {
+  export const WorkerMessageHandler: unknown;
+}
+
+/** The pdf.js worker module; when set, pdf.js parses in the current thread instead of starting a worker. */
+declare var pdfjsWorker: { WorkerMessageHandler: unknown } | undefined;